@@ -2,25 +2,41 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { buildIndex } from '../src/indexer/build-index.js';
+import { DEFAULT_CHUNK_OPTIONS } from '../src/indexer/chunk-docs.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const projectRoot = path.resolve(__dirname, '..');
 
 const dataDir = path.join(projectRoot, 'data');
 const dbPath = path.join(dataDir, 'oz-docs.db');
+const manifestPath = path.join(projectRoot, 'releases.json');
 
 // Parse CLI arguments
 const args = process.argv.slice(2);
 const skipFetch = args.includes('--skip-fetch');
 const force = args.includes('--force');
+// --source <dir>, repeatable: index local checkouts or npm packages instead of releases.json
+const sources = args.flatMap((arg, i) => (arg === '--source' && args[i + 1] ? [args[i + 1]] : []));
+// --chunk-tokens <n>, --chunk-overlap <n>: size of documentation chunks, in estimated tokens
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : undefined;
+};
+const chunking = {
+  targetTokens: option('--chunk-tokens') ?? DEFAULT_CHUNK_OPTIONS.targetTokens,
+  overlapTokens: option('--chunk-overlap') ?? DEFAULT_CHUNK_OPTIONS.overlapTokens,
+};
 
 async function main() {
   try {
     await buildIndex({
       dataDir,
       dbPath,
+      manifestPath,
+      sources,
       skipFetch,
       force,
+      chunking,
     });
     console.log('\nIndex build complete!');
   } catch (error) {
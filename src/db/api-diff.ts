@@ -0,0 +1,269 @@
+import type { ContractDiff, MemberChange, MemberDetails, VersionDiff } from '../types.js';
+
+/**
+ * Public surface of a contract in one release
+ */
+export interface ApiContract {
+  name: string;
+  type: string;
+  inheritance: string[];
+  members: ApiMember[];
+}
+
+export interface ApiMember {
+  member: MemberDetails;
+  paramTypes: string[]; // Normalized, see normalizeTypeName in queries.ts
+  returnTypes: string[];
+}
+
+// Members whose key includes their parameter types (they can be overloaded)
+const CALLABLE_TYPES = new Set(['function', 'event', 'error', 'modifier']);
+
+// Name similarity (0-1) from which removed/added pairs count as renames
+const RENAME_THRESHOLD = 0.5;
+
+/**
+ * Compare the contracts of two releases. Contracts and members are matched by
+ * name (members of the same type with the same parameter types); unmatched
+ * pairs with similar names and the same shape are reported as renames. With
+ * `only`, the result is limited to that contract under either name.
+ */
+export function diffApis(
+  before: ApiContract[],
+  after: ApiContract[],
+  only?: string
+): Omit<VersionDiff, 'from' | 'to' | 'name' | 'variant'> {
+  const afterByName = new Map(after.map(contract => [contract.name, contract]));
+  const beforeNames = new Set(before.map(contract => contract.name));
+
+  const kept = before.filter(contract => afterByName.has(contract.name));
+  const removed = before.filter(contract => !afterByName.has(contract.name));
+  const added = after.filter(contract => !beforeNames.has(contract.name));
+
+  const renamed = pairRenames(removed, added, (a, b) => {
+    if (a.type !== b.type && !(isContractLike(a.type) && isContractLike(b.type))) return 0;
+    return (similarity(a.name, b.name) + overlap(memberNames(a), memberNames(b))) / 2;
+  });
+
+  const pairs: Array<[ApiContract, ApiContract]> = [
+    ...kept.map(contract => [contract, afterByName.get(contract.name)!] as [ApiContract, ApiContract]),
+    ...renamed.map(pair => [pair.from, pair.to] as [ApiContract, ApiContract]),
+  ];
+
+  const matches = (name: string) => !only || name === only;
+  const changed = pairs
+    .filter(([a, b]) => matches(a.name) || matches(b.name))
+    .map(([a, b]) => diffContract(a, b))
+    .filter((diff): diff is ContractDiff => diff !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const renamedNames = new Set(renamed.flatMap(pair => [pair.from.name, pair.to.name]));
+  const addedList = added.filter(c => !renamedNames.has(c.name) && matches(c.name));
+  const removedList = removed.filter(c => !renamedNames.has(c.name) && matches(c.name));
+  const renamedList = renamed.filter(pair => matches(pair.from.name) || matches(pair.to.name));
+  const compared = pairs.filter(([a, b]) => matches(a.name) || matches(b.name)).length;
+
+  return {
+    summary: {
+      added: addedList.length,
+      removed: removedList.length,
+      renamed: renamedList.length,
+      changed: changed.length,
+      unchanged: compared - changed.length,
+    },
+    added: addedList.map(({ name, type }) => ({ name, type })),
+    removed: removedList.map(({ name, type }) => ({ name, type })),
+    renamed: renamedList.map(pair => ({
+      from: pair.from.name,
+      to: pair.to.name,
+      similarity: Math.round(pair.score * 100) / 100,
+    })),
+    changed,
+  };
+}
+
+/**
+ * Differences between two releases of a contract, null if there are none
+ */
+function diffContract(before: ApiContract, after: ApiContract): ContractDiff | null {
+  const basesAdded = after.inheritance.filter(base => !before.inheritance.includes(base));
+  const basesRemoved = before.inheritance.filter(base => !after.inheritance.includes(base));
+
+  const diff: ContractDiff = {
+    name: after.name,
+    ...(before.name !== after.name ? { previousName: before.name } : {}),
+    ...(before.type !== after.type ? { type: { from: before.type, to: after.type } } : {}),
+    ...(basesAdded.length > 0 || basesRemoved.length > 0
+      ? { inheritance: { added: basesAdded, removed: basesRemoved } }
+      : {}),
+    added: [],
+    removed: [],
+    renamed: [],
+    changed: [],
+  };
+
+  const afterByKey = new Map(after.members.map(m => [memberKey(m), m]));
+  const beforeKeys = new Set(before.members.map(memberKey));
+  let removed = before.members.filter(m => !afterByKey.has(memberKey(m)));
+  let added = after.members.filter(m => !beforeKeys.has(memberKey(m)));
+
+  for (const old of before.members) {
+    const current = afterByKey.get(memberKey(old));
+    if (current) pushChange(diff.changed, old, current);
+  }
+
+  // A single overload on each side with other parameter types: signature change
+  for (const old of [...removed]) {
+    const sameName = (m: ApiMember) => m.member.type === old.member.type && m.member.name === old.member.name;
+    const candidates = added.filter(sameName);
+    if (candidates.length !== 1 || removed.filter(sameName).length !== 1) continue;
+
+    pushChange(diff.changed, old, candidates[0], true);
+    removed = removed.filter(m => m !== old);
+    added = added.filter(m => m !== candidates[0]);
+  }
+
+  const renames = pairRenames(removed, added, (a, b) =>
+    a.member.type === b.member.type && a.member.visibility === b.member.visibility && shape(a) === shape(b)
+      ? similarity(a.member.name, b.member.name)
+      : 0
+  );
+  for (const { from, to } of renames) {
+    diff.renamed.push({ type: from.member.type, from: from.member.signature, to: to.member.signature });
+    removed = removed.filter(m => m !== from);
+    added = added.filter(m => m !== to);
+  }
+
+  diff.removed = removed.map(m => m.member.signature);
+  diff.added = added.map(m => m.member.signature);
+
+  const unchanged = !diff.previousName && !diff.type && !diff.inheritance &&
+    diff.added.length === 0 && diff.removed.length === 0 && diff.renamed.length === 0 && diff.changed.length === 0;
+  return unchanged ? null : diff;
+}
+
+function pushChange(changes: MemberChange[], before: ApiMember, after: ApiMember, parametersChanged = false): void {
+  const fields: MemberChange['changes'] = [];
+  const compare = (field: string, from: string | boolean | null, to: string | boolean | null) => {
+    if (from !== to) fields.push({ field, from, to });
+  };
+
+  if (parametersChanged) {
+    compare('parameters', before.paramTypes.join(','), after.paramTypes.join(','));
+  }
+  compare('visibility', before.member.visibility, after.member.visibility);
+  compare('mutability', mutability(before.member), mutability(after.member));
+
+  if (before.member.type === 'function') {
+    compare('returns', before.returnTypes.join(','), after.returnTypes.join(','));
+    compare('modifiers', modifierNames(before.member), modifierNames(after.member));
+  }
+  if (before.member.type === 'function' || before.member.type === 'modifier') {
+    compare('virtual', before.member.isVirtual, after.member.isVirtual);
+  }
+  if (!CALLABLE_TYPES.has(before.member.type)) {
+    // Struct fields, enum values, variable and value types are part of the signature
+    compare('definition', before.member.signature, after.member.signature);
+  }
+
+  if (fields.length > 0) {
+    changes.push({
+      type: after.member.type,
+      name: after.member.name,
+      from: before.member.signature,
+      to: after.member.signature,
+      changes: fields,
+    });
+  }
+}
+
+function memberKey(member: ApiMember): string {
+  const { type, name } = member.member;
+  return CALLABLE_TYPES.has(type) ? `${type}:${name}(${member.paramTypes.join(',')})` : `${type}:${name}`;
+}
+
+/**
+ * What a renamed member must keep besides its type and visibility: parameter
+ * and return types, or the data type of variables
+ */
+function shape(member: ApiMember): string {
+  return `${member.paramTypes.join(',')}|${member.returnTypes.join(',')}|${member.member.dataType ?? ''}`;
+}
+
+function mutability(member: MemberDetails): string | null {
+  if (member.mutability) return member.mutability;
+  return member.type === 'function' ? 'nonpayable' : null;
+}
+
+function modifierNames(member: MemberDetails): string {
+  return member.modifiers.map(modifier => modifier.name).join(',');
+}
+
+function isContractLike(type: string): boolean {
+  return type === 'contract' || type === 'abstract';
+}
+
+function memberNames(contract: ApiContract): Set<string> {
+  return new Set(contract.members.map(m => `${m.member.type}:${m.member.name}`));
+}
+
+/**
+ * Greedy one-to-one pairing of removed and added items, best score first
+ */
+function pairRenames<T>(
+  removed: T[],
+  added: T[],
+  score: (from: T, to: T) => number
+): Array<{ from: T; to: T; score: number }> {
+  const candidates = removed
+    .flatMap(from => added.map(to => ({ from, to, score: score(from, to) })))
+    .filter(candidate => candidate.score >= RENAME_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const pairs: Array<{ from: T; to: T; score: number }> = [];
+  const used = new Set<T>();
+  for (const candidate of candidates) {
+    if (used.has(candidate.from) || used.has(candidate.to)) continue;
+    used.add(candidate.from);
+    used.add(candidate.to);
+    pairs.push(candidate);
+  }
+  return pairs;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two names, ignoring case and
+ * leading underscores
+ */
+function similarity(a: string, b: string): number {
+  const bigrams = (name: string) => {
+    const text = name.replace(/^_+/, '').toLowerCase();
+    const result: string[] = [];
+    for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+    return result;
+  };
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return a === b ? 1 : 0;
+
+  let shared = 0;
+  const remaining = [...right];
+  for (const bigram of left) {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Jaccard index of two sets
+ */
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const shared = [...a].filter(item => b.has(item)).length;
+  return shared / (a.size + b.size - shared);
+}
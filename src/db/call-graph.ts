@@ -0,0 +1,299 @@
+import type { CallInfo, CallEdgeKind, CallTraceNode, EffectSite, MemberDetails } from '../types.js';
+
+/**
+ * Access to the indexed contracts of one version, as needed to resolve calls
+ */
+export interface CallGraphLookup {
+  // C3 linearization, empty when the contract is not indexed
+  linearization(contract: string): string[];
+  // Functions, modifiers and using-for directives declared by the contract
+  members(contract: string): MemberDetails[];
+  // `using L for T global` directives of file scopes
+  globalUsing(): MemberDetails[];
+  // File-level functions with this name, with the file scope declaring them
+  freeFunctions(name: string): Array<{ contract: string; member: MemberDetails }>;
+  // Indexed call edges (see call_edges) from any contract of the version to a declaration
+  callers(contract: string, signature: string): CallSite[];
+}
+
+export interface ResolvedCall {
+  kind: CallEdgeKind;
+  contract: string;
+  member?: MemberDetails; // Undefined for unresolved external calls
+  context: string[]; // Linearization the callee's own calls resolve in
+  name: string;
+  line?: number;
+}
+
+// Array members that never lead to another function
+const ARRAY_MEMBERS = new Set(['push', 'pop']);
+
+/**
+ * Resolve the modifiers applied to a member and the calls in its body. Calls
+ * are dispatched the way solc does it: internal and `this` calls virtually
+ * from the most derived contract of the context, `super` calls from the base
+ * after the declaring contract, `Base.f()` and library calls statically.
+ */
+export function resolveEdges(
+  lookup: CallGraphLookup,
+  member: MemberDetails,
+  declaredIn: string,
+  context: string[]
+): ResolvedCall[] {
+  const edges: ResolvedCall[] = [];
+
+  for (const modifier of member.modifiers) {
+    const found = findMember(lookup, context, 'modifier', modifier.name);
+    if (found) {
+      edges.push({ kind: 'modifier', ...found, context, name: modifier.name });
+    }
+  }
+
+  for (const call of member.calls) {
+    const edge = resolveCall(lookup, call, declaredIn, context);
+    if (edge) edges.push(edge);
+  }
+
+  return edges;
+}
+
+function resolveCall(
+  lookup: CallGraphLookup,
+  call: CallInfo,
+  declaredIn: string,
+  context: string[]
+): ResolvedCall | undefined {
+  const edge = { name: call.name, line: call.line };
+
+  switch (call.kind) {
+    case 'internal':
+    case 'this': {
+      const found = findMember(lookup, context, 'function', call.name, call.argumentCount);
+      if (found) return { kind: call.kind, ...found, context, ...edge };
+
+      const free = lookup.freeFunctions(call.name)
+        .find(f => f.member.params.length === call.argumentCount);
+      if (free) return { kind: call.kind, ...free, context: [free.contract], ...edge };
+      return undefined;
+    }
+
+    case 'super': {
+      const bases = context.slice(context.indexOf(declaredIn) + 1);
+      const found = findMember(lookup, bases, 'function', call.name, call.argumentCount);
+      return found ? { kind: 'super', ...found, context, ...edge } : undefined;
+    }
+
+    case 'member': {
+      const qualifier = call.qualifier || '';
+
+      if (context.includes(qualifier)) {
+        const bases = context.slice(context.indexOf(qualifier));
+        const found = findMember(lookup, bases, 'function', call.name, call.argumentCount);
+        if (found) return { kind: 'base', ...found, context, ...edge };
+      }
+
+      const qualified = lookup.linearization(qualifier);
+      if (qualified.length > 0) {
+        const found = findMember(lookup, qualified, 'function', call.name, call.argumentCount);
+        if (found) return { kind: 'library', ...found, context: qualified, ...edge };
+      }
+
+      // `x.f(a)` through `using L for T`: the receiver is the first argument
+      const libraries = [
+        ...lookup.members(declaredIn).filter(m => m.type === 'using'),
+        ...lookup.globalUsing(),
+      ].map(m => m.name);
+      for (const library of libraries) {
+        const found = findMember(lookup, [library], 'function', call.name, call.argumentCount + 1);
+        if (found) return { kind: 'library', ...found, context: [library], ...edge };
+      }
+
+      if (ARRAY_MEMBERS.has(call.name)) return undefined;
+      return { kind: 'external', contract: qualifier, context: [], ...edge };
+    }
+  }
+}
+
+/**
+ * First declaration along `contracts` of a function or modifier; functions must
+ * take `argumentCount` parameters
+ */
+function findMember(
+  lookup: CallGraphLookup,
+  contracts: string[],
+  type: 'function' | 'modifier',
+  name: string,
+  argumentCount?: number
+): { contract: string; member: MemberDetails } | undefined {
+  for (const contract of contracts) {
+    const member = lookup.members(contract).find(m =>
+      m.type === type &&
+      m.name === name &&
+      (argumentCount === undefined || m.params.length === argumentCount)
+    );
+    if (member) return { contract, member };
+  }
+  return undefined;
+}
+
+/**
+ * Expand the functions and modifiers reachable from a member, `depth` levels deep
+ */
+export function traceCallees(
+  lookup: CallGraphLookup,
+  node: CallTraceNode,
+  member: MemberDetails,
+  context: string[],
+  depth: number,
+  path: Set<string> = new Set()
+): CallTraceNode {
+  const edges = resolveEdges(lookup, member, node.contract, context);
+  if (edges.length === 0) return node;
+  if (depth <= 0) return { ...node, truncated: true };
+
+  const key = nodeKey(node);
+  path.add(key);
+
+  const calls = edges.map(edge => {
+    const child = toNode(edge);
+    if (!edge.member) return child;
+    if (path.has(nodeKey(child))) return { ...child, recursive: true };
+    return traceCallees(lookup, child, edge.member, edge.context, depth - 1, path);
+  });
+
+  path.delete(key);
+  return { ...node, calls };
+}
+
+/**
+ * Expand the functions and modifiers that reach a member, `depth` levels up.
+ * Calls made within `context` are resolved in it, so virtual calls reach the
+ * overrides of its most derived contract; calls from every other contract of
+ * the version come from the indexed call edges.
+ */
+export function traceCallers(
+  lookup: CallGraphLookup,
+  node: CallTraceNode,
+  context: string[],
+  depth: number,
+  callSites: CallSite[] = collectCallSites(lookup, context),
+  path: Set<string> = new Set()
+): CallTraceNode {
+  const key = nodeKey(node);
+  const callers = [
+    ...callSites.filter(site =>
+      site.edge.member && `${site.edge.contract}.${site.edge.member.signature}` === key
+    ),
+    ...(node.signature === null ? [] : lookup.callers(node.contract, node.signature))
+      .filter(site => !context.includes(site.contract)),
+  ];
+  if (callers.length === 0) return node;
+  if (depth <= 0) return { ...node, truncated: true };
+
+  path.add(key);
+
+  const calls = callers.map(site => {
+    const caller: CallTraceNode = {
+      contract: site.contract,
+      name: site.member.name,
+      signature: site.member.signature,
+      kind: site.edge.kind,
+      line: site.edge.line,
+    };
+    if (path.has(nodeKey(caller))) return { ...caller, recursive: true };
+    return traceCallers(lookup, caller, context, depth - 1, callSites, path);
+  });
+
+  path.delete(key);
+  return { ...node, calls };
+}
+
+/**
+ * Collect the emits and reverts of a member and of everything it reaches within
+ * `depth` calls. Each site is reported once, with the shortest call path to it.
+ */
+export function collectEffects(
+  lookup: CallGraphLookup,
+  member: MemberDetails,
+  declaredIn: string,
+  context: string[],
+  depth: number
+): EffectSite[] {
+  const sites: EffectSite[] = [];
+  const visited = new Set<string>();
+  let queue = [{ member, contract: declaredIn, context, via: [`${declaredIn}.${member.name}`] }];
+
+  for (let level = 0; level <= depth && queue.length > 0; level++) {
+    const next: typeof queue = [];
+
+    for (const item of queue) {
+      const key = `${item.contract}.${item.member.signature}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const raised = [
+        ...item.member.emits.map(site => ({ kind: 'emit' as const, ...site })),
+        ...item.member.reverts.map(site => ({ kind: 'revert' as const, ...site })),
+      ];
+      for (const site of raised) {
+        sites.push({
+          kind: site.kind,
+          name: site.name,
+          message: site.message,
+          contract: item.contract,
+          function: item.member.signature,
+          line: site.line,
+          via: item.via,
+        });
+      }
+
+      for (const edge of resolveEdges(lookup, item.member, item.contract, item.context)) {
+        if (!edge.member) continue;
+        next.push({
+          member: edge.member,
+          contract: edge.contract,
+          context: edge.context,
+          via: [...item.via, `${edge.contract}.${edge.member.name}`],
+        });
+      }
+    }
+
+    queue = next;
+  }
+
+  return sites;
+}
+
+// A call made by `member`, declared in `contract`
+export interface CallSite {
+  contract: string;
+  member: MemberDetails;
+  edge: ResolvedCall;
+}
+
+function collectCallSites(lookup: CallGraphLookup, context: string[]): CallSite[] {
+  const sites: CallSite[] = [];
+  for (const contract of context) {
+    for (const member of lookup.members(contract)) {
+      if (member.type !== 'function' && member.type !== 'modifier') continue;
+      for (const edge of resolveEdges(lookup, member, contract, context)) {
+        sites.push({ contract, member, edge });
+      }
+    }
+  }
+  return sites;
+}
+
+function toNode(edge: ResolvedCall): CallTraceNode {
+  return {
+    contract: edge.contract,
+    name: edge.name,
+    signature: edge.member?.signature ?? null,
+    kind: edge.kind,
+    line: edge.line,
+  };
+}
+
+function nodeKey(node: CallTraceNode): string {
+  return `${node.contract}.${node.signature}`;
+}
@@ -0,0 +1,51 @@
+/**
+ * C3 linearization as performed by solc. Bases are given in declaration order
+ * ("most base-like" first), so they are reversed before merging. Returns the
+ * contract itself followed by its bases, most derived first.
+ */
+export function linearize(
+  name: string,
+  basesOf: (name: string) => string[],
+  cache: Map<string, string[]> = new Map(),
+  visiting: Set<string> = new Set()
+): string[] {
+  const cached = cache.get(name);
+  if (cached) return cached;
+
+  if (visiting.has(name)) {
+    throw new Error(`Cyclic inheritance detected at ${name}`);
+  }
+  visiting.add(name);
+
+  const bases = [...basesOf(name)].reverse();
+  const sequences = bases.map(base => [...linearize(base, basesOf, cache, visiting)]);
+  sequences.push(bases);
+
+  const result = [name, ...merge(sequences, name)];
+
+  visiting.delete(name);
+  cache.set(name, result);
+  return result;
+}
+
+function merge(sequences: string[][], name: string): string[] {
+  const result: string[] = [];
+
+  while (true) {
+    const remaining = sequences.filter(seq => seq.length > 0);
+    if (remaining.length === 0) return result;
+
+    const head = remaining
+      .map(seq => seq[0])
+      .find(candidate => !remaining.some(seq => seq.indexOf(candidate) > 0));
+
+    if (!head) {
+      throw new Error(`Linearization of inheritance graph impossible for ${name}`);
+    }
+
+    result.push(head);
+    for (const seq of remaining) {
+      if (seq[0] === head) seq.shift();
+    }
+  }
+}
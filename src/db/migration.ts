@@ -0,0 +1,351 @@
+import type { ContractInfo, MemberDetails, MigrationFinding } from '../types.js';
+import { linearize } from './inheritance.js';
+
+/**
+ * Access to the indexed contracts of the releases a migration is checked between
+ */
+export interface MigrationLookup {
+  // Inheritance list of an indexed contract, undefined if the release lacks it
+  bases(version: string, contract: string): string[] | undefined;
+  members(version: string, contract: string): MemberDetails[];
+  importPaths(version: string): Set<string>;
+  // Member renames of a contract between the two releases, see diffVersions
+  renames(contract: string): Array<{ from: string; to: string }>;
+}
+
+export interface CheckedCode {
+  contracts: ContractInfo[];
+  imports: Array<{ path: string; line?: number }>; // OpenZeppelin imports only
+}
+
+// Recommended replacements for APIs removed or changed in 5.0, by
+// 'Contract.member' or contract name
+const REPLACEMENTS: Record<string, string> = {
+  'ERC20._beforeTokenTransfer': 'Override `_update(address from, address to, uint256 value)` and call `super._update` after the hook logic',
+  'ERC20._afterTokenTransfer': 'Override `_update(address from, address to, uint256 value)` and put the hook logic after `super._update`',
+  'ERC721._beforeTokenTransfer': 'Override `_update(address to, uint256 tokenId, address auth)`; `super._update` returns the previous owner',
+  'ERC721._afterTokenTransfer': 'Override `_update(address to, uint256 tokenId, address auth)` and put the hook logic after `super._update`',
+  'ERC1155._beforeTokenTransfer': 'Override `_update(address from, address to, uint256[] ids, uint256[] values)`',
+  'ERC1155._afterTokenTransfer': 'Override `_update(address from, address to, uint256[] ids, uint256[] values)` and put the hook logic after `super._update`',
+  'ERC20.increaseAllowance': 'Use `approve`, or `SafeERC20.safeIncreaseAllowance` on other tokens',
+  'ERC20.decreaseAllowance': 'Use `approve`, or `SafeERC20.safeDecreaseAllowance` on other tokens',
+  'ERC721._exists': 'Use `_ownerOf(tokenId) != address(0)`',
+  'ERC721._isApprovedOrOwner': 'Use `_isAuthorized(owner, spender, tokenId)` or `_checkAuthorized`',
+  'ERC721._requireMinted': 'Use `_requireOwned(tokenId)`',
+  'AccessControl._setupRole': 'Use `_grantRole(role, account)`',
+  'Ownable.constructor': 'Pass the initial owner to the base constructor: `Ownable(initialOwner)`',
+  'SafeERC20.safeApprove': 'Use `forceApprove`, or `safeIncreaseAllowance`/`safeDecreaseAllowance`',
+  'SafeERC20.safePermit': 'Call `permit` on the token and handle a failed permit (e.g. front-running) explicitly',
+  'Address.isContract': 'Use `account.code.length > 0` (zero while the account is being constructed)',
+  'ECDSA.toEthSignedMessageHash': 'Use `MessageHashUtils.toEthSignedMessageHash`',
+  'ECDSA.toTypedDataHash': 'Use `MessageHashUtils.toTypedDataHash`',
+  'ECDSA.toDataWithIntendedValidatorHash': 'Use `MessageHashUtils.toDataWithIntendedValidatorHash`',
+  Counters: 'Use a plain `uint256` counter, e.g. `uint256 tokenId = _nextTokenId++;`',
+  SafeMath: 'Use Solidity arithmetic, checked by default since 0.8 (`Math.tryAdd` etc. for non-reverting variants)',
+  SignedSafeMath: 'Use Solidity arithmetic, checked by default since 0.8',
+  ERC20Snapshot: 'Use ERC20Votes checkpoints, or keep a copy of the 4.x contract',
+  ERC20VotesComp: 'Use ERC20Votes',
+  GovernorVotesComp: 'Use GovernorVotes',
+  GovernorCompatibilityBravo: 'Use GovernorStorage for proposal enumeration; the Bravo interface is no longer provided',
+  GovernorProposalThreshold: 'Use Governor, which implements the proposal threshold',
+  IGovernorTimelock: 'Use IGovernor, which now includes the timelock functions',
+  ERC777: 'Use ERC20, with ERC1363 for transfer callbacks',
+  ERC1820Implementer: 'Removed with ERC777; use ERC165 for interface detection',
+  ERC165Storage: 'Override `supportsInterface` instead',
+  ERC1967Upgrade: 'Use the ERC1967Utils library',
+  MinimalForwarder: 'Use ERC2771Forwarder',
+  TokenTimelock: 'Use VestingWallet, or keep a copy of the 4.x contract',
+  Timers: 'Store `uint48` timepoints directly (see the Time library)',
+  PaymentSplitter: 'Keep a copy of the 4.x contract; it was removed from the library',
+  PullPayment: 'Keep a copy of the 4.x contract; it was removed from the library',
+  Escrow: 'Keep a copy of the 4.x contract; it was removed from the library',
+  ConditionalEscrow: 'Keep a copy of the 4.x contract; it was removed from the library',
+  RefundEscrow: 'Keep a copy of the 4.x contract; it was removed from the library',
+  ERC20PresetMinterPauser: 'Presets were removed; use the Contracts Wizard to generate an equivalent token',
+  ERC20PresetFixedSupply: 'Presets were removed; use the Contracts Wizard to generate an equivalent token',
+  ERC721PresetMinterPauserAutoId: 'Presets were removed; use the Contracts Wizard to generate an equivalent token',
+  ERC1155PresetMinterPauser: 'Presets were removed; use the Contracts Wizard to generate an equivalent token',
+  ERC1155Receiver: 'Use ERC1155Holder, or implement IERC1155Receiver',
+};
+
+interface Use {
+  type: 'function' | 'modifier';
+  name: string;
+  argumentCount: number;
+  usage: MigrationFinding['usage'];
+  line?: number;
+  isSuper?: boolean; // `super.f()`, which skips the calling contract's own declarations
+}
+
+/**
+ * Find the OpenZeppelin API used by the code that the target release removes
+ * or changes: imports, contracts it inherits, uses or qualifies types with,
+ * inherited functions and modifiers it calls or overrides, library functions
+ * and base constructors. Only uses that resolve in the older release count.
+ */
+export function collectMigrationFindings(
+  lookup: MigrationLookup,
+  code: CheckedCode,
+  from: string,
+  to: string
+): MigrationFinding[] {
+  const findings = new Map<string, MigrationFinding>();
+  const report = (finding: Omit<MigrationFinding, 'lines'>, line?: number) => {
+    const key = [finding.kind, finding.name, finding.usage, finding.contract].join('|');
+    const existing = findings.get(key) ?? { ...finding, lines: [] };
+    if (line !== undefined && !existing.lines.includes(line)) existing.lines.push(line);
+    findings.set(key, existing);
+  };
+
+  const ownContracts = new Map(code.contracts.map(contract => [contract.name, contract]));
+  const basesIn = (version: string) => (name: string) =>
+    ownContracts.get(name)?.inheritance ?? lookup.bases(version, name) ?? [];
+  const isIndexed = (version: string, name: string) =>
+    !ownContracts.has(name) && lookup.bases(version, name) !== undefined;
+
+  const fromPaths = lookup.importPaths(from);
+  const toPaths = lookup.importPaths(to);
+  for (const { path, line } of code.imports) {
+    if (!fromPaths.has(path) || toPaths.has(path)) continue;
+    const moved = [...toPaths].filter(candidate => sameFile(candidate, path));
+    report({
+      kind: 'import',
+      name: path,
+      status: moved.length > 0 ? 'moved' : 'removed',
+      usage: 'import',
+      ...(moved.length > 0
+        ? { to: moved, replacement: `import from "${moved[0]}"` }
+        : { replacement: replacementFor(path.slice(path.lastIndexOf('/') + 1).replace(/\.sol$/, '')) }),
+    }, line);
+  }
+
+  // File-level `using ... global` applies to every contract of the file
+  const fileScopes = code.contracts.filter(contract => contract.type === 'file');
+  const globalUsing = fileScopes.flatMap(scope => scope.usingFor);
+
+  for (const contract of code.contracts) {
+    const where = contract.type === 'file' ? undefined : contract.name;
+
+    const removedContract = (name: string, usage: MigrationFinding['usage'], line?: number) => {
+      if (!isIndexed(from, name) || lookup.bases(to, name) !== undefined) return;
+      report({ kind: 'contract', name, status: 'removed', usage, contract: where, replacement: replacementFor(name) }, line);
+    };
+
+    for (const base of contract.inheritance) removedContract(base, 'inherits', contract.startLine);
+    for (const using of contract.usingFor) removedContract(using.library, 'using', using.startLine);
+    for (const { type, line } of typeReferences(contract)) {
+      const qualifier = type.match(/^(\w+)\./)?.[1];
+      if (qualifier) removedContract(qualifier, 'type', line);
+    }
+
+    const fromLinearization = safeLinearize(contract.name, basesIn(from)).filter(name => !ownContracts.has(name));
+    const toLinearization = safeLinearize(contract.name, basesIn(to)).filter(name => !ownContracts.has(name));
+    const declaredHere = (name: string) => [contract, ...code.contracts.filter(c => fromLinearization.includes(c.name))]
+      .some(c => c.functions.some(f => f.name === name) || c.modifiers.some(m => m.name === name));
+
+    // Inherited functions and modifiers
+    for (const use of inheritedUses(contract, ownContracts)) {
+      if (use.usage === 'call' && !use.isSuper && declaredHere(use.name)) continue;
+
+      // Uses of a removed base are covered by the contract's own finding
+      const declared = findDeclaration(lookup, from, fromLinearization, use);
+      if (!declared || lookup.bases(to, declared.contract) === undefined) continue;
+      const current = toLinearization.flatMap(name =>
+        lookup.members(to, name).filter(m => m.type === use.type && m.name === use.name)
+      );
+
+      checkMember(lookup, report, declared, current, use, where);
+    }
+
+    // Library calls, qualified or through `using for`
+    const libraries = [...contract.usingFor, ...(contract.type === 'file' ? [] : globalUsing)]
+      .map(using => using.library)
+      .filter(name => isIndexed(from, name));
+
+    for (const member of [...contract.functions, ...contract.modifiers]) {
+      for (const call of member.calls ?? []) {
+        if (call.kind !== 'member') continue;
+        const qualifier = call.qualifier ?? '';
+
+        let declared: { contract: string; member: MemberDetails } | undefined;
+        if (isIndexed(from, qualifier)) {
+          removedContract(qualifier, 'call', call.line);
+          declared = findDeclaration(lookup, from, [qualifier], { type: 'function', name: call.name, argumentCount: call.argumentCount });
+        } else {
+          for (const library of libraries) {
+            declared = findDeclaration(lookup, from, [library], { type: 'function', name: call.name, argumentCount: call.argumentCount + 1 });
+            if (declared) break;
+          }
+        }
+        if (!declared || lookup.bases(to, declared.contract) === undefined) continue;
+
+        const current = lookup.members(to, declared.contract).filter(m => m.type === 'function' && m.name === call.name);
+        const use: Use = {
+          type: 'function',
+          name: call.name,
+          argumentCount: declared.member.params.length,
+          usage: 'call',
+          line: call.line,
+        };
+        checkMember(lookup, report, declared, current, use, where);
+      }
+    }
+
+    // Constructors of direct bases whose parameters changed
+    for (const base of contract.inheritance) {
+      if (!isIndexed(from, base) || lookup.bases(to, base) === undefined) continue;
+      const before = lookup.members(from, base).find(m => m.type === 'function' && m.name === 'constructor');
+      const after = lookup.members(to, base).find(m => m.type === 'function' && m.name === 'constructor');
+      if (!before && !after) continue;
+      if (paramTypes(before) === paramTypes(after)) continue;
+
+      report({
+        kind: 'function',
+        name: `${base}.constructor`,
+        status: 'changed',
+        usage: 'inherits',
+        contract: where,
+        from: before?.signature ?? `constructor()`,
+        to: [after?.signature ?? `constructor()`],
+        replacement: replacementFor(`${base}.constructor`),
+      }, contract.startLine);
+    }
+  }
+
+  return [...findings.values()].sort((a, b) => (a.lines[0] ?? 0) - (b.lines[0] ?? 0));
+}
+
+/**
+ * Report a member of the older release that the target release lacks, or has
+ * no overload of with the same number of parameters
+ */
+function checkMember(
+  lookup: MigrationLookup,
+  report: (finding: Omit<MigrationFinding, 'lines'>, line?: number) => void,
+  declared: { contract: string; member: MemberDetails },
+  current: MemberDetails[],
+  use: Use,
+  contract: string | undefined
+): void {
+  if (current.some(m => m.params.length === declared.member.params.length)) return;
+
+  const name = `${declared.contract}.${use.name}`;
+  const rename = current.length === 0
+    ? lookup.renames(declared.contract).find(r => memberName(r.from) === use.name)
+    : undefined;
+
+  report({
+    kind: use.type,
+    name,
+    status: current.length === 0 ? 'removed' : 'changed',
+    usage: use.usage,
+    contract,
+    from: declared.member.signature,
+    ...(current.length > 0 ? { to: current.map(m => m.signature) } : rename ? { to: [rename.to] } : {}),
+    replacement: replacementFor(name) ?? (rename ? `Possibly renamed to \`${memberName(rename.to)}\`` : undefined),
+  }, use.line);
+}
+
+/**
+ * Functions and modifiers a contract takes from its bases: internal and super
+ * calls, overrides and modifier invocations
+ */
+function inheritedUses(contract: ContractInfo, ownContracts: Map<string, ContractInfo>): Use[] {
+  const uses: Use[] = [];
+
+  for (const member of [...contract.functions, ...contract.modifiers]) {
+    for (const call of member.calls ?? []) {
+      if (call.kind === 'internal' || call.kind === 'super') {
+        uses.push({
+          type: 'function',
+          name: call.name,
+          argumentCount: call.argumentCount,
+          usage: 'call',
+          line: call.line,
+          isSuper: call.kind === 'super',
+        });
+      }
+    }
+  }
+
+  for (const fn of contract.functions) {
+    if (fn.override !== undefined) {
+      uses.push({ type: 'function', name: fn.name, argumentCount: fn.params.length, usage: 'override', line: fn.startLine });
+    }
+    for (const modifier of fn.modifiers ?? []) {
+      // Base constructor arguments are written like modifiers
+      if (modifier.name === fn.name || contract.inheritance.includes(modifier.name) || ownContracts.has(modifier.name)) continue;
+      if (contract.modifiers.some(m => m.name === modifier.name)) continue;
+      uses.push({ type: 'modifier', name: modifier.name, argumentCount: modifier.arguments.length, usage: 'modifier', line: fn.startLine });
+    }
+  }
+
+  return uses;
+}
+
+/**
+ * First declaration along `contracts`, preferring an overload with the used
+ * number of arguments
+ */
+function findDeclaration(
+  lookup: MigrationLookup,
+  version: string,
+  contracts: string[],
+  use: Pick<Use, 'type' | 'name' | 'argumentCount'>
+): { contract: string; member: MemberDetails } | undefined {
+  let fallback: { contract: string; member: MemberDetails } | undefined;
+  for (const contract of contracts) {
+    for (const member of lookup.members(version, contract)) {
+      if (member.type !== use.type || member.name !== use.name) continue;
+      if (member.params.length === use.argumentCount) return { contract, member };
+      fallback ??= { contract, member };
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Type names of state variables and of function parameters and returns
+ */
+function typeReferences(contract: ContractInfo): Array<{ type: string; line?: number }> {
+  return [
+    ...contract.stateVariables.map(v => ({ type: v.type, line: v.startLine })),
+    ...contract.functions.flatMap(f =>
+      [...f.params, ...f.returns].map(p => ({ type: p.type, line: f.startLine }))
+    ),
+  ];
+}
+
+function safeLinearize(name: string, basesOf: (name: string) => string[]): string[] {
+  try {
+    return linearize(name, basesOf);
+  } catch {
+    return [name, ...basesOf(name)];
+  }
+}
+
+/**
+ * Same file name in another directory, also after dropping a 'draft-' prefix
+ */
+function sameFile(candidate: string, path: string): boolean {
+  const fileName = (p: string) => p.slice(p.lastIndexOf('/') + 1).replace(/^draft-/, '');
+  const packageName = (p: string) => p.split('/').slice(0, 2).join('/');
+  return packageName(candidate) === packageName(path) && fileName(candidate) === fileName(path);
+}
+
+/**
+ * Replacement note for 'Contract.member' or a contract; upgradeable contracts
+ * share the notes of their standard counterpart
+ */
+function replacementFor(name: string): string | undefined {
+  return REPLACEMENTS[name] ?? REPLACEMENTS[name.replace(/^(\w+)Upgradeable\b/, '$1')];
+}
+
+function paramTypes(member: MemberDetails | undefined): string {
+  return (member?.params ?? []).map(p => p.type).join(',');
+}
+
+// 'function _beforeTokenTransfer(address from, ...) internal' -> '_beforeTokenTransfer'
+function memberName(signature: string): string {
+  return signature.match(/(\w+)\s*\(/)?.[1] ?? signature;
+}
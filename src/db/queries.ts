@@ -5,7 +5,27 @@ import type {
   MemberDetails,
   ParamInfo,
   ReturnInfo,
+  AbiFragment,
+  ModifierInvocationInfo,
+  SourceDetails,
+  ImportDetails,
+  ReleaseRow,
+  CallTrace,
+  CallTraceNode,
+  CallEdgeKind,
+  EffectSite,
+  EffectTrace,
+  RaiserSearch,
+  VersionDiff,
+  MigrationReport,
+  ChangelogDetails,
+  DocSectionDetails,
 } from '../types.js';
+import { linearize } from './inheritance.js';
+import { compareReleases, PRODUCTS } from '../indexer/releases.js';
+import { traceCallees, traceCallers, collectEffects, resolveEdges, type CallGraphLookup, type ResolvedCall } from './call-graph.js';
+import { diffApis, type ApiContract } from './api-diff.js';
+import { collectMigrationFindings, type CheckedCode, type MigrationLookup } from './migration.js';
 
 /**
  * Helper to run a query and get all rows as objects
@@ -53,6 +73,15 @@ export function toFtsQuery(query: string): string {
     .join(' ');
 }
 
+/**
+ * Render a modifier invocation as written in source, e.g. 'onlyRole(MINTER_ROLE)'
+ */
+export function formatModifierInvocation(modifier: ModifierInvocationInfo): string {
+  return modifier.arguments.length > 0
+    ? `${modifier.name}(${modifier.arguments.join(', ')})`
+    : modifier.name;
+}
+
 /**
  * Search documentation using FTS4
  */
@@ -61,14 +90,17 @@ export function searchDocs(
   query: string,
   version: string = '5.x',
   category: string = 'all',
-  limit: number = 5
+  limit: number = 5,
+  product: string = 'contracts'
 ): SearchResult[] {
   const ftsQuery = toFtsQuery(query);
 
   const sql = `
     SELECT
       d.id,
+      d.section_id as sectionId,
       d.title,
+      d.breadcrumb,
       d.module,
       d.category,
       d.version,
@@ -78,13 +110,18 @@ export function searchDocs(
     FROM docs_fts
     JOIN docs d ON docs_fts.docid = d.id
     WHERE docs_fts MATCH ?
-      AND (? = 'all' OR d.version = ?)
+      AND d.product = ?
+      AND (? = 'all' OR d.version IN (
+        SELECT r.release FROM releases r
+        WHERE r.product = d.product
+          AND r.series = (SELECT series FROM releases WHERE product = d.product AND release = ?)
+      ))
       AND (? = 'all' OR d.category = ?)
     LIMIT ?
   `;
 
   try {
-    return queryAll<SearchResult>(db, sql, [ftsQuery, version, version, category, category, limit]);
+    return queryAll<SearchResult>(db, sql, [ftsQuery, product, version, version, category, category, limit]);
   } catch (error) {
     // FTS query might fail for certain inputs, return empty results
     console.error('FTS search error:', error);
@@ -93,15 +130,96 @@ export function searchDocs(
 }
 
 /**
- * Search members (functions, events, errors) using FTS4
+ * Documentation section search chunks are cut from (their `sectionId`)
+ */
+export function getDocSection(db: Database, sectionId: number): DocSectionDetails | null {
+  return queryOne<DocSectionDetails>(db, `
+    SELECT
+      s.id,
+      s.product,
+      s.version,
+      s.title,
+      s.breadcrumb,
+      s.content,
+      s.source_url as sourceUrl,
+      (SELECT COUNT(*) FROM docs d WHERE d.section_id = s.id) as chunks
+    FROM doc_sections s
+    WHERE s.id = ?
+  `, [sectionId]) ?? null;
+}
+
+/**
+ * Indexed releases of a product, newest first
+ */
+export function listReleases(db: Database, product: string = 'contracts'): ReleaseRow[] {
+  return queryAll<ReleaseRow>(db, `
+    SELECT id, product, release, tag, series, label FROM releases WHERE product = ?
+  `, [product]).sort((a, b) => compareReleases(b, a));
+}
+
+/**
+ * Products with indexed releases, in the order of PRODUCTS
+ */
+export function listProducts(db: Database): string[] {
+  const products = queryAll<{ product: string }>(db, 'SELECT DISTINCT product FROM releases').map(row => row.product);
+  return PRODUCTS.filter(product => products.includes(product));
+}
+
+/**
+ * Resolve a requested version to an indexed release: an exact release
+ * ('5.1.0'), its tag ('v5.1.0') or manifest label, or a release line ('5.x',
+ * '5', '5.1', '5.1.x') standing for its newest indexed release. 'latest'
+ * is the newest release overall. Lines and 'latest' skip prereleases
+ * ('5.4.0-rc.1') unless they hold no stable release. Returns null when
+ * nothing matches.
+ */
+export function resolveVersion(db: Database, version: string, product: string = 'contracts'): string | null {
+  const releases = listReleases(db, product);
+  const requested = version.trim();
+
+  if (requested === 'latest') return newestRelease(releases.map(r => r.release));
+
+  const exact = releases.find(r => r.release === requested || r.tag === requested || r.label === requested);
+  if (exact) return exact.release;
+
+  const line = requested.match(/^v?(\d+)(?:\.(\d+))?(?:\.x)?$/);
+  if (!line) return null;
+  const prefix = line[2] === undefined ? `${line[1]}.` : `${line[1]}.${line[2]}.`;
+  return newestRelease(releases.map(r => r.release).filter(release => release.startsWith(prefix)));
+}
+
+/**
+ * First stable release of a newest-first list, or its first prerelease
+ */
+function newestRelease(releases: string[]): string | null {
+  return releases.find(release => !release.includes('-')) ?? releases[0] ?? null;
+}
+
+/**
+ * Search members (functions, events, errors) using FTS4. With a tag, only
+ * members carrying that @custom tag are returned and the query may be empty.
  */
 export function searchMembers(
   db: Database,
   query: string,
   version: string = '5.x',
-  limit: number = 10
+  limit: number = 10,
+  tag?: string,
+  product: string = 'contracts'
 ): MemberDetails[] {
-  const ftsQuery = toFtsQuery(query);
+  const conditions = ['c.product = ?', `(? = 'all' OR c.version = ?)`];
+  const params: unknown[] = [product, version, version];
+  let source = 'members m';
+
+  if (query.trim()) {
+    source = 'members_fts JOIN members m ON members_fts.docid = m.id';
+    conditions.unshift('members_fts MATCH ?');
+    params.unshift(toFtsQuery(query));
+  }
+  if (tag) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(m.custom_tags) WHERE key = ?)');
+    params.push(normalizeCustomTag(tag));
+  }
 
   const sql = `
     SELECT
@@ -115,14 +233,25 @@ export function searchMembers(
       m.returns,
       m.natspec_notice as natspecNotice,
       m.natspec_dev as natspecDev,
+      m.natspec_source as natspecSource,
+      m.data_type as dataType,
+      m.value,
+      m.canonical_signature as canonicalSignature,
+      m.selector,
+      m.modifiers,
+      m.calls,
+      m.emits,
+      m.reverts,
+      m.is_virtual as isVirtual,
+      m.override,
+      m.custom_tags as customTags,
+      m.storage_layout as storageLayout,
       m.example_code as exampleCode,
       c.name as contractName,
       c.version
-    FROM members_fts
-    JOIN members m ON members_fts.docid = m.id
+    FROM ${source}
     JOIN contracts c ON m.contract_id = c.id
-    WHERE members_fts MATCH ?
-      AND (? = 'all' OR c.version = ?)
+    WHERE ${conditions.join(' AND ')}
     LIMIT ?
   `;
 
@@ -138,10 +267,23 @@ export function searchMembers(
       returns: string;
       natspecNotice: string | null;
       natspecDev: string | null;
+      natspecSource: string | null;
+      dataType: string | null;
+      value: string | null;
+      canonicalSignature: string | null;
+      selector: string | null;
+      modifiers: string | null;
+      calls: string | null;
+      emits: string | null;
+      reverts: string | null;
+      isVirtual: number | null;
+      override: string | null;
+      customTags: string | null;
+      storageLayout: string | null;
       exampleCode: string | null;
       contractName: string;
       version: string;
-    }>(db, sql, [ftsQuery, version, version, limit]);
+    }>(db, sql, [...params, limit]);
 
     return rows.map(row => ({
       name: row.name,
@@ -153,7 +295,21 @@ export function searchMembers(
       returns: JSON.parse(row.returns) as ReturnInfo[],
       natspecNotice: row.natspecNotice,
       natspecDev: row.natspecDev,
+      natspecSource: row.natspecSource,
+      dataType: row.dataType,
+      value: row.value,
+      canonicalSignature: row.canonicalSignature,
+      selector: row.selector,
+      modifiers: JSON.parse(row.modifiers || '[]'),
+      calls: JSON.parse(row.calls || '[]'),
+      emits: JSON.parse(row.emits || '[]'),
+      reverts: JSON.parse(row.reverts || '[]'),
+      isVirtual: Boolean(row.isVirtual),
+      override: row.override ? JSON.parse(row.override) : null,
+      customTags: JSON.parse(row.customTags || '{}'),
+      storageLayout: row.storageLayout ? JSON.parse(row.storageLayout) : null,
       exampleCode: row.exampleCode,
+      contractName: row.contractName,
     }));
   } catch (error) {
     console.error('FTS search error:', error);
@@ -162,75 +318,788 @@ export function searchMembers(
 }
 
 /**
- * Get contract with all its members
+ * List contracts whose NatSpec carries the given @custom tag
  */
-export function getContract(
+export function findContractsByTag(
   db: Database,
-  name: string,
-  version: string = '5.x'
-): ContractDetails | null {
-  const contractSql = `
-    SELECT
+  tag: string,
+  version: string = '5.x',
+  limit: number = 10,
+  product: string = 'contracts'
+): Array<{ name: string; type: string; version: string; value: string }> {
+  return queryAll(db, `
+    SELECT c.name, c.type, c.version, t.value
+    FROM contracts c, json_each(c.custom_tags) t
+    WHERE t.key = ? AND c.product = ? AND (? = 'all' OR c.version = ?)
+    ORDER BY c.name
+    LIMIT ?
+  `, [normalizeCustomTag(tag), product, version, version, limit]);
+}
+
+/**
+ * Accept 'oz-upgrades-unsafe-allow', 'custom:oz-upgrades-unsafe-allow' or '@custom:...'
+ */
+function normalizeCustomTag(tag: string): string {
+  return tag.trim().replace(/^@?custom:/, '');
+}
+
+interface ContractQueryRow {
+  id: number;
+  name: string;
+  type: string;
+  category: string;
+  product: string;
+  version: string;
+  inheritance: string;
+  variant: string;
+  counterpart: string | null;
+  importPath: string | null;
+  natspecTitle: string | null;
+  natspecNotice: string | null;
+  customTags: string | null;
+  sourceUrl: string | null;
+}
+
+const CONTRACT_COLUMNS = `
       id,
       name,
       type,
       category,
+      product,
       version,
       inheritance,
+      variant,
+      counterpart,
+      import_path as importPath,
+      natspec_title as natspecTitle,
       natspec_notice as natspecNotice,
+      custom_tags as customTags,
       source_url as sourceUrl
-    FROM contracts
-    WHERE name = ? AND version = ?
-  `;
+`;
 
-  let contract = queryOne<{
-    id: number;
-    name: string;
-    type: string;
-    category: string;
-    version: string;
-    inheritance: string;
-    natspecNotice: string | null;
-    sourceUrl: string | null;
-  }>(db, contractSql, [name, version]);
+/**
+ * Get contract with all its members. With includeInherited, members of every
+ * base in the C3 linearization are merged in, tagged with their declaring contract.
+ */
+export function getContract(
+  db: Database,
+  name: string,
+  version: string = '5.x',
+  includeInherited: boolean = false,
+  product: string = 'contracts'
+): ContractDetails | null {
+  const contract = findContractRow(db, name, version, product);
+  return contract ? buildContractDetails(db, contract, includeInherited) : null;
+}
+
+function findContractRow(
+  db: Database,
+  name: string,
+  version: string,
+  product: string = 'contracts'
+): ContractQueryRow | undefined {
+  let contract = queryOne<ContractQueryRow>(db, `
+    SELECT ${CONTRACT_COLUMNS}
+    FROM contracts
+    WHERE name = ? AND version = ? AND product = ?
+  `, [name, version, product]);
 
   if (!contract) {
     // Try case-insensitive search
-    contract = queryOne(db, `
-      SELECT
-        id,
-        name,
-        type,
-        category,
-        version,
-        inheritance,
-        natspec_notice as natspecNotice,
-        source_url as sourceUrl
+    contract = queryOne<ContractQueryRow>(db, `
+      SELECT ${CONTRACT_COLUMNS}
       FROM contracts
-      WHERE LOWER(name) = LOWER(?) AND version = ?
-    `, [name, version]);
+      WHERE LOWER(name) = LOWER(?) AND version = ? AND product = ?
+    `, [name, version, product]);
+  }
 
-    if (!contract) {
-      return null;
+  if (!contract) {
+    // File-level declarations are stored under their source path, e.g. 'contracts/utils/ShortStrings.sol',
+    // or Cairo module path, e.g. 'openzeppelin_token::erc20::erc20'
+    contract = queryOne<ContractQueryRow>(db, `
+      SELECT ${CONTRACT_COLUMNS}
+      FROM contracts
+      WHERE type = 'file' AND (name = ? OR name LIKE ? OR name LIKE ?) AND version = ? AND product = ?
+    `, [name, `%/${name}`, `%::${name}`, version, product]);
+  }
+
+  return contract;
+}
+
+/**
+ * Get the source of a contract, or of 'Contract.member' (all overloads). Members
+ * not declared by the contract itself are looked up along its linearization.
+ */
+export function getSource(
+  db: Database,
+  target: string,
+  version: string = '5.x',
+  product: string = 'contracts'
+): SourceDetails | null {
+  let contract = findContractRow(db, target, version, product);
+  let memberName: string | undefined;
+
+  if (!contract) {
+    const dot = target.lastIndexOf('.');
+    if (dot <= 0) return null;
+    contract = findContractRow(db, target.slice(0, dot), version, product);
+    memberName = target.slice(dot + 1);
+  }
+  if (!contract) return null;
+
+  const location = queryOne<{ sourcePath: string | null; startLine: number | null; endLine: number | null }>(db, `
+    SELECT source_path as sourcePath, start_line as startLine, end_line as endLine
+    FROM contracts WHERE id = ?
+  `, [contract.id]);
+
+  let declaredIn = contract.name;
+  let excerpts: Array<{ name: string; type: string; signature: string | null; startLine: number | null; endLine: number | null }>;
+
+  if (memberName === undefined) {
+    excerpts = [{
+      name: contract.name,
+      type: contract.type,
+      signature: null,
+      startLine: location?.startLine ?? null,
+      endLine: location?.endLine ?? null,
+    }];
+  } else {
+    excerpts = [];
+    for (const name of getLinearization(db, contract.name, version, product)) {
+      excerpts = queryAll(db, `
+        SELECT m.name, m.type, m.signature, m.start_line as startLine, m.end_line as endLine
+        FROM members m
+        JOIN contracts c ON m.contract_id = c.id
+        WHERE c.name = ? AND c.version = ? AND c.product = ? AND m.name = ? AND m.type != 'using'
+        ORDER BY m.start_line
+      `, [name, version, product, memberName]);
+      if (excerpts.length > 0) {
+        declaredIn = name;
+        break;
+      }
     }
+    if (excerpts.length === 0) return null;
   }
 
-  return buildContractDetails(db, contract);
+  const file = queryOne<{ path: string; variant: string; content: string; sourceUrl: string | null }>(db, `
+    SELECT s.path, s.variant, s.content, c.source_url as sourceUrl
+    FROM contracts c
+    JOIN sources s ON s.path = c.source_path AND s.version = c.version AND s.variant = c.variant AND s.product = c.product
+    WHERE c.name = ? AND c.version = ? AND c.product = ?
+  `, [declaredIn, version, product]);
+  if (!file) return null;
+
+  const lines = file.content.split('\n');
+  return {
+    name: memberName === undefined ? contract.name : `${contract.name}.${memberName}`,
+    declaredIn,
+    version,
+    variant: file.variant,
+    path: file.path,
+    sourceUrl: file.sourceUrl,
+    excerpts: excerpts.map(excerpt => {
+      const startLine = excerpt.startLine ?? 1;
+      const endLine = excerpt.endLine ?? lines.length;
+      return {
+        name: excerpt.name,
+        type: excerpt.type,
+        signature: excerpt.signature,
+        startLine,
+        endLine,
+        code: lines.slice(startLine - 1, endLine).join('\n'),
+      };
+    }),
+  };
 }
 
-function buildContractDetails(
+/**
+ * Locate the file to import a symbol from: a contract, library or interface, a
+ * file-level declaration (struct, error, free function, user-defined type, ...)
+ * or 'Contract.Member' for a declaration nested in a contract, which is imported
+ * through its contract. Standard declarations win over upgradeable ones.
+ */
+export function getImport(
   db: Database,
-  contract: {
-    id: number;
-    name: string;
-    type: string;
-    category: string;
-    version: string;
-    inheritance: string;
-    natspecNotice: string | null;
+  symbol: string,
+  version: string = '5.x',
+  product: string = 'contracts'
+): ImportDetails | null {
+  let target: { symbol: string; member: string | null; kind: string; variant: string; importPath: string | null; path: string | null } | undefined;
+
+  const dot = symbol.lastIndexOf('.');
+  const contract = findContractRow(db, dot > 0 ? symbol.slice(0, dot) : symbol, version, product);
+  if (contract && contract.type !== 'file') {
+    const member = dot > 0 ? symbol.slice(dot + 1) : null;
+    const location = queryOne<{ path: string | null }>(db, 'SELECT source_path as path FROM contracts WHERE id = ?', [contract.id]);
+    target = { symbol: contract.name, member, kind: contract.type, variant: contract.variant, importPath: contract.importPath, path: location?.path ?? null };
+  } else if (dot < 0) {
+    target = queryOne(db, `
+      SELECT m.name as symbol, NULL as member, m.type as kind, c.variant, c.import_path as importPath, c.source_path as path
+      FROM members m
+      JOIN contracts c ON m.contract_id = c.id
+      WHERE c.type = 'file' AND c.version = ? AND c.product = ? AND m.name = ? AND m.type != 'using'
+      ORDER BY c.variant = 'upgradeable'
+    `, [version, product, symbol]);
+  }
+  if (!target?.importPath || !target.path) return null;
+
+  const files: string[] = [];
+  const queue = [target.importPath];
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    const row = queryOne<{ imports: string | null }>(db, `
+      SELECT imports FROM sources WHERE version = ? AND product = ? AND import_path = ?
+    `, [version, product, current]);
+    for (const imported of JSON.parse(row?.imports || '[]') as string[]) {
+      if (imported === target.importPath || files.includes(imported)) continue;
+      files.push(imported);
+      queue.push(imported);
+    }
+  }
+
+  return { ...target, importPath: target.importPath, path: target.path, files };
+}
+
+/**
+ * Compare the API of two releases: contracts and members added, removed,
+ * renamed or changed, for one contract or every contract of a variant. Private
+ * members and using-for directives are not part of the API. Returns null if
+ * the contract exists in neither release.
+ */
+export function diffVersions(
+  db: Database,
+  from: string,
+  to: string,
+  name?: string,
+  variant: string = 'standard',
+  category: string = 'all',
+  product: string = 'contracts'
+): VersionDiff | null {
+  let contractName: string | undefined;
+  if (name) {
+    const row = findContractRow(db, name, to, product) ?? findContractRow(db, name, from, product);
+    if (!row) return null;
+    contractName = row.name;
+    variant = row.variant;
+    category = 'all';
+  }
+
+  const diff = diffApis(
+    loadApiContracts(db, from, variant, category, product),
+    loadApiContracts(db, to, variant, category, product),
+    contractName
+  );
+  return { from, to, ...(contractName ? { name: contractName } : {}), variant, ...diff };
+}
+
+function loadApiContracts(
+  db: Database,
+  version: string,
+  variant: string,
+  category: string,
+  product: string
+): ApiContract[] {
+  const rows = queryAll<{ id: number; name: string; type: string; inheritance: string }>(db, `
+    SELECT id, name, type, inheritance
+    FROM contracts
+    WHERE version = ? AND product = ? AND variant = ? AND (? = 'all' OR category = ?)
+    ORDER BY name
+  `, [version, product, variant, category, category]);
+
+  return rows.map(row => ({
+    name: row.name,
+    type: row.type,
+    inheritance: JSON.parse(row.inheritance || '[]'),
+    members: getContractMembers(db, row.id)
+      .filter(member => member.visibility !== 'private' && member.type !== 'using')
+      .map(member => ({
+        member,
+        paramTypes: member.params.map(p => normalizeTypeName(p.type)),
+        returnTypes: member.returns.map(r => normalizeTypeName(r.type)),
+      })),
+  }));
+}
+
+/**
+ * Check Solidity code written against release `from` for OpenZeppelin API
+ * that release `to` removes or changes
+ */
+export function checkMigration(
+  db: Database,
+  code: CheckedCode,
+  from: string,
+  to: string,
+  product: string = 'contracts'
+): MigrationReport {
+  return {
+    from,
+    to,
+    contracts: code.contracts.filter(contract => contract.type !== 'file').map(contract => contract.name),
+    findings: collectMigrationFindings(createMigrationLookup(db, from, to, product), code, from, to),
+  };
+}
+
+function createMigrationLookup(db: Database, from: string, to: string, product: string): MigrationLookup {
+  const contracts = new Map<string, { id: number; inheritance: string[] } | null>();
+  const members = new Map<string, MemberDetails[]>();
+  const importPaths = new Map<string, Set<string>>();
+  const renames = new Map<string, Array<{ from: string; to: string }>>();
+
+  const findContract = (version: string, name: string) => {
+    const key = `${version}:${name}`;
+    if (!contracts.has(key)) {
+      const row = queryOne<{ id: number; inheritance: string }>(db, `
+        SELECT id, inheritance FROM contracts WHERE name = ? AND version = ? AND product = ?
+      `, [name, version, product]);
+      contracts.set(key, row ? { id: row.id, inheritance: JSON.parse(row.inheritance || '[]') } : null);
+    }
+    return contracts.get(key);
+  };
+
+  return {
+    bases(version, name) {
+      return findContract(version, name)?.inheritance;
+    },
+    members(version, name) {
+      const key = `${version}:${name}`;
+      if (!members.has(key)) {
+        const contract = findContract(version, name);
+        members.set(key, contract ? getContractMembers(db, contract.id) : []);
+      }
+      return members.get(key)!;
+    },
+    importPaths(version) {
+      if (!importPaths.has(version)) {
+        const rows = queryAll<{ importPath: string }>(db, `
+          SELECT import_path as importPath FROM sources WHERE version = ? AND product = ?
+        `, [version, product]);
+        importPaths.set(version, new Set(rows.map(row => row.importPath)));
+      }
+      return importPaths.get(version)!;
+    },
+    renames(name) {
+      if (!renames.has(name)) {
+        renames.set(name, diffVersions(db, from, to, name, 'standard', 'all', product)?.changed[0]?.renamed ?? []);
+      }
+      return renames.get(name)!;
+    },
+  };
+}
+
+/**
+ * Changelog entries, newest release first. `contract` matches the contracts an
+ * entry mentions ('Governor', 'Governor*') or, with a dot, its member
+ * references ('Governor.quorum', '*.quorum'). `since` and `until` are
+ * inclusive bounds given as releases or release lines ('4.x', '5.1').
+ */
+export function getChangelog(
+  db: Database,
+  contract?: string,
+  query?: string,
+  since?: string,
+  until?: string,
+  breaking: boolean = false,
+  limit: number = 20
+): { total: number; entries: ChangelogDetails[] } {
+  const conditions = ['(? = 0 OR breaking = 1)'];
+  const params: unknown[] = [breaking ? 1 : 0];
+
+  if (contract) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(${contract.includes('.') ? 'members' : 'contracts'}) WHERE value GLOB ?)`);
+    params.push(contract);
+  }
+  for (const word of (query || '').split(/\s+/).filter(Boolean)) {
+    conditions.push('content LIKE ?');
+    params.push(`%${word}%`);
+  }
+
+  const rows = queryAll<{
+    release: string;
+    date: string | null;
+    section: string | null;
+    content: string;
+    breaking: number;
+    contracts: string;
+    members: string;
+    pullRequests: string;
     sourceUrl: string | null;
+  }>(db, `
+    SELECT
+      release,
+      release_date as date,
+      section,
+      content,
+      breaking,
+      contracts,
+      members,
+      pull_requests as pullRequests,
+      source_url as sourceUrl
+    FROM changelog
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY id
+  `, params);
+
+  const lower = since ? releaseBound(since, 'lower') : undefined;
+  const upper = until ? releaseBound(until, 'upper') : undefined;
+  const entries = rows
+    .filter(row => (!lower || compareReleases(row, lower) >= 0) && (!upper || compareReleases(row, upper) <= 0))
+    .sort((a, b) => compareReleases(b, a))
+    .map(row => ({
+      release: row.release,
+      date: row.date,
+      section: row.section,
+      breaking: Boolean(row.breaking),
+      content: row.content,
+      contracts: JSON.parse(row.contracts || '[]'),
+      members: JSON.parse(row.members || '[]'),
+      pullRequests: JSON.parse(row.pullRequests || '[]'),
+      sourceUrl: row.sourceUrl,
+    }));
+
+  return { total: entries.length, entries: entries.slice(0, limit) };
+}
+
+/**
+ * First ('lower') or last ('upper') release a bound covers: '5.x' spans
+ * 5.0.0 to the last 5.y.z, '5.1' spans the 5.1.z releases
+ */
+function releaseBound(value: string, side: 'lower' | 'upper'): { release: string } {
+  const match = value.trim().match(/^v?(\d+)(?:\.(\d+|x))?(?:\.(\d+|x)(-[\w.]+)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid release '${value}' (expected e.g. '5.1.0', '5.1' or '5.x')`);
   }
-): ContractDetails {
+
+  const open = side === 'lower' ? '0' : String(Number.MAX_SAFE_INTEGER);
+  const part = (text: string | undefined) => (text === undefined || text === 'x' ? open : text);
+  const minor = part(match[2]);
+  const patch = match[2] === undefined || match[2] === 'x' ? open : part(match[3]);
+  return { release: `${match[1]}.${minor}.${patch}${match[4] ?? ''}` };
+}
+
+/**
+ * Get the C3 linearization of a contract (most derived first) from the stored
+ * inheritance lists. Bases that are not indexed are treated as having no parents.
+ */
+export function getLinearization(
+  db: Database,
+  name: string,
+  version: string = '5.x',
+  product: string = 'contracts'
+): string[] {
+  return linearize(name, contractName => {
+    const row = queryOne<{ inheritance: string }>(db, `
+      SELECT inheritance FROM contracts WHERE name = ? AND version = ? AND product = ?
+    `, [contractName, version, product]);
+    return row ? JSON.parse(row.inheritance) : [];
+  });
+}
+
+/**
+ * Trace the call graph of 'Contract.function' (optionally with parameter types,
+ * 'ERC20._update(address,address,uint256)'). Calls are resolved in the
+ * context of the contract, so virtual functions dispatch to its overrides and
+ * callers are searched along its linearization.
+ */
+export function traceCalls(
+  db: Database,
+  target: string,
+  version: string = '5.x',
+  direction: 'callees' | 'callers' = 'callees',
+  depth: number = 3,
+  product: string = 'contracts'
+): CallTrace | null {
+  const resolved = resolveTraceTarget(db, target, version, product);
+  if (!resolved) return null;
+  const { lookup, linearization, roots } = resolved;
+
+  return {
+    name: target,
+    version,
+    direction,
+    linearization,
+    roots: roots.map(({ contract, member }) => {
+      const root: CallTraceNode = { contract, name: member.name, signature: member.signature, kind: 'root' };
+      return direction === 'callees'
+        ? traceCallees(lookup, root, member, linearization, depth)
+        : traceCallers(lookup, root, linearization, depth);
+    }),
+  };
+}
+
+/**
+ * Events and errors raised by 'Contract.function' (all overloads unless
+ * parameter types are given), directly or through the functions it calls
+ */
+export function traceEffects(
+  db: Database,
+  target: string,
+  version: string = '5.x',
+  depth: number = 5,
+  product: string = 'contracts'
+): EffectTrace | null {
+  const resolved = resolveTraceTarget(db, target, version, product);
+  if (!resolved) return null;
+  const { lookup, linearization, roots } = resolved;
+
+  return {
+    name: target,
+    version,
+    linearization,
+    functions: roots.map(({ contract, member }) => {
+      const sites = collectEffects(lookup, member, contract, linearization, depth);
+      return {
+        contract,
+        signature: member.signature,
+        emits: sites.filter(site => site.kind === 'emit'),
+        reverts: sites.filter(site => site.kind === 'revert'),
+      };
+    }),
+  };
+}
+
+/**
+ * Find the functions that emit an event or revert with an error (or, for 4.x,
+ * a reason string containing `name`), and the public/external functions that
+ * reach them. Entry points are searched in `contract` when given, otherwise in
+ * every contract inheriting from a contract that holds a site or calls into
+ * one (up to `depth` calls away).
+ */
+export function findRaisers(
+  db: Database,
+  name: string,
+  version: string = '5.x',
+  contract?: string,
+  depth: number = 5,
+  product: string = 'contracts'
+): RaiserSearch {
+  const rows = queryAll<{ contractName: string; signature: string; kind: 'emit' | 'revert'; name: string; message: string | null; line: number | null }>(db, `
+    SELECT c.name as contractName, m.signature, site.kind, json_extract(site.value, '$.name') as name,
+      json_extract(site.value, '$.message') as message, json_extract(site.value, '$.line') as line
+    FROM members m
+    JOIN contracts c ON m.contract_id = c.id
+    JOIN (
+      SELECT e.value, 'emit' as kind, m2.id as member_id FROM members m2, json_each(m2.emits) e
+      UNION ALL
+      SELECT r.value, 'revert' as kind, m2.id as member_id FROM members m2, json_each(m2.reverts) r
+    ) site ON site.member_id = m.id
+    WHERE c.version = ? AND c.product = ?
+      AND (json_extract(site.value, '$.name') = ? OR json_extract(site.value, '$.message') LIKE ?)
+    ORDER BY c.name, m.start_line
+  `, [version, product, name, `%${name}%`]);
+
+  const sites = rows.map(row => ({
+    contract: row.contractName,
+    function: row.signature,
+    kind: row.kind,
+    name: row.name,
+    message: row.message ?? undefined,
+    line: row.line ?? undefined,
+  }));
+
+  const lookup = createCallGraphLookup(db, version, product);
+  const contexts = contract
+    ? [findContractRow(db, contract, version, product)?.name ?? contract]
+    : findRaiserContexts(db, lookup, sites, version, product, depth);
+  const matches = (site: EffectSite) => site.name === name || Boolean(site.message?.includes(name));
+
+  const entryPoints: RaiserSearch['entryPoints'] = [];
+  for (const context of contexts) {
+    const linearization = lookup.linearization(context);
+    const seen = new Set<string>();
+
+    for (const declaredIn of linearization) {
+      for (const member of lookup.members(declaredIn)) {
+        if (member.type !== 'function' || (member.visibility !== 'public' && member.visibility !== 'external')) continue;
+
+        const key = `${member.name}(${member.params.map(p => p.type).join(',')})`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const site = collectEffects(lookup, member, declaredIn, linearization, depth).find(matches);
+        if (site) {
+          entryPoints.push({ context, contract: declaredIn, function: member.signature, via: site.via });
+        }
+      }
+    }
+  }
+
+  return { name, version, sites, entryPoints };
+}
+
+/**
+ * Contracts of a release whose linearization includes a contract holding one
+ * of `sites`, or a contract calling into one through the indexed call edges
+ */
+function findRaiserContexts(
+  db: Database,
+  lookup: CallGraphLookup,
+  sites: Array<{ contract: string; function: string }>,
+  version: string,
+  product: string,
+  depth: number
+): string[] {
+  const origins = new Set(sites.map(site => site.contract));
+  const visited = new Set<string>();
+  let queue = sites.map(site => ({ contract: site.contract, signature: site.function }));
+
+  for (let level = 0; level < depth && queue.length > 0; level++) {
+    const next: typeof queue = [];
+    for (const item of queue) {
+      const key = `${item.contract}.${item.signature}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      for (const caller of lookup.callers(item.contract, item.signature)) {
+        origins.add(caller.contract);
+        next.push({ contract: caller.contract, signature: caller.member.signature });
+      }
+    }
+    queue = next;
+  }
+
+  return queryAll<{ name: string }>(db, `
+    SELECT name FROM contracts
+    WHERE version = ? AND product = ? AND type != 'file'
+    ORDER BY name
+  `, [version, product])
+    .map(row => row.name)
+    .filter(name => lookup.linearization(name).some(base => origins.has(base)));
+}
+
+/**
+ * Resolve 'Contract.function' or 'Contract.function(types)' to the effective
+ * declarations along the contract's linearization
+ */
+function resolveTraceTarget(
+  db: Database,
+  target: string,
+  version: string,
+  product: string
+): { lookup: CallGraphLookup; linearization: string[]; roots: Array<{ contract: string; member: MemberDetails }> } | null {
+  const match = target.match(/^(.+)\.(\w+)(?:\((.*)\))?$/);
+  if (!match) return null;
+  const [, contractName, memberName, paramTypes] = match;
+
+  const contract = findContractRow(db, contractName, version, product);
+  if (!contract) return null;
+
+  const lookup = createCallGraphLookup(db, version, product);
+  const linearization = lookup.linearization(contract.name);
+
+  const roots: Array<{ contract: string; member: MemberDetails }> = [];
+  const seen = new Set<string>();
+  for (const name of linearization) {
+    for (const member of lookup.members(name)) {
+      if (member.name !== memberName || (member.type !== 'function' && member.type !== 'modifier')) continue;
+
+      const types = member.params.map(p => p.type).join(',');
+      if (paramTypes !== undefined && types !== paramTypes.replace(/\s+/g, '')) continue;
+      // Overridden declarations further down the linearization are not reachable
+      if (seen.has(types)) continue;
+      seen.add(types);
+
+      roots.push({ contract: name, member });
+    }
+  }
+  if (roots.length === 0) return null;
+
+  return { lookup, linearization, roots };
+}
+
+function createCallGraphLookup(db: Database, version: string, product: string): CallGraphLookup {
+  const members = new Map<string, MemberDetails[]>();
+  const linearizations = new Map<string, string[]>();
+  let globalUsing: MemberDetails[] | undefined;
+
+  return {
+    linearization(name) {
+      if (!linearizations.has(name)) {
+        const exists = queryOne(db, 'SELECT 1 FROM contracts WHERE name = ? AND version = ? AND product = ?', [name, version, product]);
+        linearizations.set(name, exists ? getLinearization(db, name, version, product) : []);
+      }
+      return linearizations.get(name)!;
+    },
+    members(name) {
+      if (!members.has(name)) {
+        const row = queryOne<{ id: number }>(db, `
+          SELECT id FROM contracts WHERE name = ? AND version = ? AND product = ?
+        `, [name, version, product]);
+        members.set(name, row
+          ? getContractMembers(db, row.id).filter(m => m.type === 'function' || m.type === 'modifier' || m.type === 'using')
+          : []);
+      }
+      return members.get(name)!;
+    },
+    globalUsing() {
+      globalUsing ??= queryAll<{ name: string }>(db, `
+        SELECT c.name FROM contracts c
+        WHERE c.type = 'file' AND c.version = ? AND c.product = ?
+      `, [version, product]).flatMap(file =>
+        this.members(file.name).filter(m => m.type === 'using' && /\bglobal\b/.test(m.signature))
+      );
+      return globalUsing;
+    },
+    freeFunctions(name) {
+      return queryAll<{ contractName: string }>(db, `
+        SELECT DISTINCT c.name as contractName
+        FROM members m
+        JOIN contracts c ON m.contract_id = c.id
+        WHERE c.type = 'file' AND c.version = ? AND c.product = ? AND m.name = ? AND m.type = 'function'
+      `, [version, product, name]).flatMap(row =>
+        this.members(row.contractName)
+          .filter(m => m.type === 'function' && m.name === name)
+          .map(member => ({ contract: row.contractName, member }))
+      );
+    },
+    callers(contract, signature) {
+      return queryAll<{ contractName: string; signature: string; kind: CallEdgeKind; name: string; line: number | null }>(db, `
+        SELECT c.name as contractName, m.signature, e.kind, e.callee_name as name, e.line
+        FROM call_edges e
+        JOIN members m ON e.member_id = m.id
+        JOIN contracts c ON m.contract_id = c.id
+        WHERE e.callee_contract = ? AND e.callee_signature = ? AND c.version = ? AND c.product = ?
+        ORDER BY c.name, m.start_line, e.line
+      `, [contract, signature, version, product]).flatMap(row => {
+        const member = this.members(row.contractName).find(m => m.signature === row.signature);
+        if (!member) return [];
+        const callee = this.members(contract).find(m => m.signature === signature);
+        return [{
+          contract: row.contractName,
+          member,
+          edge: { kind: row.kind, contract, member: callee, context: [], name: row.name, line: row.line ?? undefined },
+        }];
+      });
+    },
+  };
+}
+
+/**
+ * Resolve the calls and modifier invocations of every function and modifier
+ * of a release in the linearization of its declaring contract, for the
+ * call_edges table
+ */
+export function resolveCallEdges(
+  db: Database,
+  version: string,
+  product: string = 'contracts'
+): Array<{ memberId: number; edge: ResolvedCall }> {
+  const lookup = createCallGraphLookup(db, version, product);
+  const rows = queryAll<{ id: number; contractName: string; signature: string }>(db, `
+    SELECT m.id, c.name as contractName, m.signature
+    FROM members m
+    JOIN contracts c ON m.contract_id = c.id
+    WHERE c.version = ? AND c.product = ? AND m.type IN ('function', 'modifier')
+    ORDER BY m.id
+  `, [version, product]);
+
+  return rows.flatMap(row => {
+    const member = lookup.members(row.contractName).find(m => m.signature === row.signature);
+    if (!member) return [];
+    return resolveEdges(lookup, member, row.contractName, lookup.linearization(row.contractName))
+      .map(edge => ({ memberId: row.id, edge }));
+  });
+}
+
+function getContractMembers(db: Database, contractId: number): MemberDetails[] {
   const membersSql = `
     SELECT
       name,
@@ -242,6 +1111,19 @@ function buildContractDetails(
       returns,
       natspec_notice as natspecNotice,
       natspec_dev as natspecDev,
+      natspec_source as natspecSource,
+      data_type as dataType,
+      value,
+      canonical_signature as canonicalSignature,
+      selector,
+      modifiers,
+      calls,
+      emits,
+      reverts,
+      is_virtual as isVirtual,
+      override,
+      custom_tags as customTags,
+      storage_layout as storageLayout,
       example_code as exampleCode
     FROM members
     WHERE contract_id = ?
@@ -258,29 +1140,123 @@ function buildContractDetails(
     returns: string;
     natspecNotice: string | null;
     natspecDev: string | null;
+    natspecSource: string | null;
+    dataType: string | null;
+    value: string | null;
+    canonicalSignature: string | null;
+    selector: string | null;
+    modifiers: string | null;
+    calls: string | null;
+    emits: string | null;
+    reverts: string | null;
+    isVirtual: number | null;
+    override: string | null;
+    customTags: string | null;
+    storageLayout: string | null;
     exampleCode: string | null;
-  }>(db, membersSql, [contract.id]);
+  }>(db, membersSql, [contractId]);
+
+  return members.map(member => ({
+    name: member.name,
+    type: member.type,
+    signature: member.signature,
+    visibility: member.visibility,
+    mutability: member.mutability,
+    params: JSON.parse(member.params),
+    returns: JSON.parse(member.returns),
+    natspecNotice: member.natspecNotice,
+    natspecDev: member.natspecDev,
+    natspecSource: member.natspecSource,
+    dataType: member.dataType,
+    value: member.value,
+    canonicalSignature: member.canonicalSignature,
+    selector: member.selector,
+    modifiers: JSON.parse(member.modifiers || '[]'),
+    calls: JSON.parse(member.calls || '[]'),
+    emits: JSON.parse(member.emits || '[]'),
+    reverts: JSON.parse(member.reverts || '[]'),
+    isVirtual: Boolean(member.isVirtual),
+    override: member.override ? JSON.parse(member.override) : null,
+    customTags: JSON.parse(member.customTags || '{}'),
+    storageLayout: member.storageLayout ? JSON.parse(member.storageLayout) : null,
+    exampleCode: member.exampleCode,
+  }));
+}
+
+/**
+ * Merge members along the linearization. The first declaration seen (the most
+ * derived one) wins; declarations further down the chain are recorded in its
+ * `overrides` list. Private members, constructors and using-for directives of
+ * bases are not inherited.
+ */
+function getInheritedMembers(
+  db: Database,
+  linearization: string[],
+  version: string,
+  product: string = 'contracts'
+): MemberDetails[] {
+  const effective = new Map<string, MemberDetails>();
+
+  linearization.forEach((contractName, index) => {
+    const row = queryOne<{ id: number }>(db, `
+      SELECT id FROM contracts WHERE name = ? AND version = ? AND product = ?
+    `, [contractName, version, product]);
+    if (!row) return;
+
+    for (const member of getContractMembers(db, row.id)) {
+      if (index > 0 && (member.visibility === 'private' || member.name === 'constructor' || member.type === 'using')) {
+        continue;
+      }
+
+      const key = memberKey(member);
+      const existing = effective.get(key);
+      if (existing) {
+        existing.overrides!.push(contractName);
+      } else {
+        effective.set(key, { ...member, declaredIn: contractName, overrides: [] });
+      }
+    }
+  });
+
+  return [...effective.values()].sort((a, b) =>
+    a.type.localeCompare(b.type) || a.name.localeCompare(b.name)
+  );
+}
+
+function memberKey(member: MemberDetails): string {
+  if (member.type !== 'function' && member.type !== 'event' && member.type !== 'error') {
+    return `${member.type}:${member.name}`;
+  }
+  return `${member.type}:${member.name}(${member.params.map(p => p.type).join(',')})`;
+}
+
+function buildContractDetails(
+  db: Database,
+  contract: ContractQueryRow,
+  includeInherited: boolean
+): ContractDetails {
+  let linearization: string[] | undefined;
+  let members: MemberDetails[];
+
+  if (includeInherited) {
+    linearization = getLinearization(db, contract.name, contract.version, contract.product);
+    members = getInheritedMembers(db, linearization, contract.version, contract.product);
+  } else {
+    members = getContractMembers(db, contract.id);
+  }
 
   const functions: MemberDetails[] = [];
   const events: MemberDetails[] = [];
   const errors: MemberDetails[] = [];
   const modifiers: MemberDetails[] = [];
+  const stateVariables: MemberDetails[] = [];
+  const structs: MemberDetails[] = [];
+  const enums: MemberDetails[] = [];
+  const userTypes: MemberDetails[] = [];
+  const usingFor: MemberDetails[] = [];
 
-  for (const member of members) {
-    const detail: MemberDetails = {
-      name: member.name,
-      type: member.type,
-      signature: member.signature,
-      visibility: member.visibility,
-      mutability: member.mutability,
-      params: JSON.parse(member.params),
-      returns: JSON.parse(member.returns),
-      natspecNotice: member.natspecNotice,
-      natspecDev: member.natspecDev,
-      exampleCode: member.exampleCode,
-    };
-
-    switch (member.type) {
+  for (const detail of members) {
+    switch (detail.type) {
       case 'function':
         functions.push(detail);
         break;
@@ -293,6 +1269,21 @@ function buildContractDetails(
       case 'modifier':
         modifiers.push(detail);
         break;
+      case 'variable':
+        stateVariables.push(detail);
+        break;
+      case 'struct':
+        structs.push(detail);
+        break;
+      case 'enum':
+        enums.push(detail);
+        break;
+      case 'type':
+        userTypes.push(detail);
+        break;
+      case 'using':
+        usingFor.push(detail);
+        break;
     }
   }
 
@@ -300,74 +1291,181 @@ function buildContractDetails(
     name: contract.name,
     type: contract.type,
     category: contract.category,
+    product: contract.product,
     version: contract.version,
     inheritance: JSON.parse(contract.inheritance),
+    linearization,
+    variant: contract.variant,
+    counterpart: contract.counterpart,
+    importPath: contract.importPath,
+    natspecTitle: contract.natspecTitle,
     natspecNotice: contract.natspecNotice,
+    customTags: JSON.parse(contract.customTags || '{}'),
     sourceUrl: contract.sourceUrl,
     functions,
     events,
     errors,
     modifiers,
+    stateVariables,
+    structs,
+    enums,
+    userTypes,
+    usingFor,
   };
 }
 
 /**
- * Get function details, optionally filtered by contract name
+ * Get the ABI of a contract, including everything inherited along its
+ * linearization. The most derived declaration of each function wins; only the
+ * contract's own constructor is included.
+ */
+export function getAbi(
+  db: Database,
+  name: string,
+  version: string = '5.x',
+  product: string = 'contracts'
+): { name: string; linearization: string[]; abi: AbiFragment[] } | null {
+  const contract = queryOne<{ name: string }>(db, `
+    SELECT name FROM contracts
+    WHERE (name = ? OR LOWER(name) = LOWER(?)) AND version = ? AND product = ? AND type != 'file'
+    ORDER BY name = ? DESC
+  `, [name, name, version, product, name]);
+
+  if (!contract) {
+    return null;
+  }
+
+  const linearization = getLinearization(db, contract.name, version, product);
+  const abi: AbiFragment[] = [];
+  const seen = new Set<string>();
+
+  linearization.forEach((contractName, index) => {
+    const rows = queryAll<{ abi: string; canonicalSignature: string | null }>(db, `
+      SELECT m.abi, m.canonical_signature as canonicalSignature
+      FROM members m
+      JOIN contracts c ON m.contract_id = c.id
+      WHERE c.name = ? AND c.version = ? AND c.product = ? AND m.abi IS NOT NULL
+      ORDER BY m.id
+    `, [contractName, version, product]);
+
+    for (const row of rows) {
+      const fragment = JSON.parse(row.abi) as AbiFragment;
+      if (fragment.type === 'constructor' && index > 0) continue;
+
+      const key = `${fragment.type}:${row.canonicalSignature || fragment.name || ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      abi.push(fragment);
+    }
+  });
+
+  return { name: contract.name, linearization, abi };
+}
+
+export interface FunctionQuery {
+  contractName?: string;
+  name: string; // Function name or 4-byte selector, may contain * wildcards
+  paramTypes?: string[]; // Set when the query gives a parameter list
+}
+
+const SELECTOR_PATTERN = /^0x[0-9a-fA-F]{8}$/;
+const DATA_LOCATIONS = new Set(['memory', 'calldata', 'storage']);
+
+/**
+ * Split a function query: 'name', 'Contract.name' (file scopes:
+ * 'utils/Foo.sol.name'), optionally followed by a parameter list. Only the part
+ * before the parameter list is split, so qualified parameter types such as
+ * 'Checkpoints.Trace208' are kept intact.
+ */
+export function parseFunctionQuery(query: string): FunctionQuery {
+  let head = query.trim();
+  let paramTypes: string[] | undefined;
+
+  const paren = head.indexOf('(');
+  if (paren >= 0) {
+    const list = head.slice(paren + 1, head.lastIndexOf(')') > paren ? head.lastIndexOf(')') : undefined);
+    paramTypes = splitTopLevel(list).map(normalizeParamType).filter(type => type.length > 0);
+    head = head.slice(0, paren).trim();
+  }
+
+  const dot = head.lastIndexOf('.');
+  if (dot > 0) {
+    return { contractName: head.slice(0, dot), name: head.slice(dot + 1), paramTypes };
+  }
+  return { name: head, paramTypes };
+}
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * 'uint256 value' -> 'uint256', 'bytes calldata data' -> 'bytes', 'uint' -> 'uint256'
+ */
+function normalizeParamType(param: string): string {
+  const tokens = param.trim().split(/\s+/).filter(token => token && !DATA_LOCATIONS.has(token));
+  if (tokens.length > 1 && tokens[tokens.length - 1] !== 'payable' && !tokens[0].startsWith('mapping')) {
+    tokens.pop();
+  }
+  return normalizeTypeName(tokens.join(' '));
+}
+
+/**
+ * User-defined types are compared without their qualifier ('Math.Rounding' -> 'Rounding')
+ */
+function normalizeTypeName(type: string): string {
+  return type.trim().replace(/\b\w+\./g, '').replace(/^(u?int)(?=$|\[)/, '$1256').replace(/\s*(\[|\])\s*/g, '$1');
+}
+
+/**
+ * Get the functions matching a query: a name or 'Contract.name', optionally
+ * with parameter types ('ERC721.safeTransferFrom(address,address,uint256,bytes)')
+ * or as a selector ('0x42842e0e', 'ERC721.0x42842e0e'). Contract and function
+ * names may use * wildcards ('ERC20*.mint*'). Only overloads whose parameter
+ * types (or ABI types) match the given list are returned.
  */
 export function getFunction(
   db: Database,
   functionName: string,
   contractName?: string,
-  version: string = '5.x'
+  version: string = '5.x',
+  product: string = 'contracts'
 ): MemberDetails[] {
-  // Handle "Contract.function" format
-  if (functionName.includes('.') && !contractName) {
-    const parts = functionName.split('.');
-    contractName = parts[0];
-    functionName = parts[1];
-  }
+  const query = parseFunctionQuery(functionName);
+  contractName ??= query.contractName;
 
-  let sql: string;
-  let params: unknown[];
+  const conditions = ['c.version = ?', 'c.product = ?', `m.type = 'function'`];
+  const params: unknown[] = [version, product];
 
-  if (contractName) {
-    sql = `
-      SELECT
-        m.name,
-        m.type,
-        m.signature,
-        m.visibility,
-        m.mutability,
-        m.params,
-        m.returns,
-        m.natspec_notice as natspecNotice,
-        m.natspec_dev as natspecDev,
-        m.example_code as exampleCode,
-        c.name as contractName
-      FROM members m
-      JOIN contracts c ON m.contract_id = c.id
-      WHERE m.name = ? AND c.name = ? AND c.version = ? AND m.type = 'function'
-    `;
-    params = [functionName, contractName, version];
+  if (SELECTOR_PATTERN.test(query.name)) {
+    conditions.push('m.selector = ?');
+    params.push(query.name.toLowerCase());
   } else {
-    sql = `
-      SELECT
-        m.name,
-        m.type,
-        m.signature,
-        m.visibility,
-        m.mutability,
-        m.params,
-        m.returns,
-        m.natspec_notice as natspecNotice,
-        m.natspec_dev as natspecDev,
-        m.example_code as exampleCode,
-        c.name as contractName
-      FROM members m
-      JOIN contracts c ON m.contract_id = c.id
-      WHERE m.name = ? AND c.version = ? AND m.type = 'function'
-    `;
-    params = [functionName, version];
+    conditions.push(query.name.includes('*') ? 'm.name GLOB ?' : 'm.name = ?');
+    params.push(query.name);
+  }
+
+  if (contractName) {
+    // File-level functions are stored under their source path (Cairo: module path)
+    const operator = contractName.includes('*') ? 'GLOB' : '=';
+    conditions.push(
+      `(c.name ${operator} ? OR (c.type = 'file' AND (c.name ${operator} ? OR c.name LIKE ? OR c.name LIKE ?)))`
+    );
+    params.push(contractName, `*/${contractName}`, `%/${contractName}`, `%::${contractName}`);
   }
 
   const rows = queryAll<{
@@ -380,11 +1478,54 @@ export function getFunction(
     returns: string;
     natspecNotice: string | null;
     natspecDev: string | null;
+    natspecSource: string | null;
+    dataType: string | null;
+    value: string | null;
+    canonicalSignature: string | null;
+    selector: string | null;
+    modifiers: string | null;
+    calls: string | null;
+    emits: string | null;
+    reverts: string | null;
+    isVirtual: number | null;
+    override: string | null;
+    customTags: string | null;
+    storageLayout: string | null;
     exampleCode: string | null;
     contractName: string;
-  }>(db, sql, params);
+  }>(db, `
+    SELECT
+      m.name,
+      m.type,
+      m.signature,
+      m.visibility,
+      m.mutability,
+      m.params,
+      m.returns,
+      m.natspec_notice as natspecNotice,
+      m.natspec_dev as natspecDev,
+      m.natspec_source as natspecSource,
+      m.data_type as dataType,
+      m.value,
+      m.canonical_signature as canonicalSignature,
+      m.selector,
+      m.modifiers,
+      m.calls,
+      m.emits,
+      m.reverts,
+      m.is_virtual as isVirtual,
+      m.override,
+      m.custom_tags as customTags,
+      m.storage_layout as storageLayout,
+      m.example_code as exampleCode,
+      c.name as contractName
+    FROM members m
+    JOIN contracts c ON m.contract_id = c.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY c.name, m.start_line
+  `, params);
 
-  return rows.map(row => ({
+  const functions: MemberDetails[] = rows.map(row => ({
     name: row.name,
     type: row.type,
     signature: row.signature,
@@ -394,8 +1535,61 @@ export function getFunction(
     returns: JSON.parse(row.returns),
     natspecNotice: row.natspecNotice,
     natspecDev: row.natspecDev,
+    natspecSource: row.natspecSource,
+    dataType: row.dataType,
+    value: row.value,
+    canonicalSignature: row.canonicalSignature,
+    selector: row.selector,
+    modifiers: JSON.parse(row.modifiers || '[]'),
+    calls: JSON.parse(row.calls || '[]'),
+    emits: JSON.parse(row.emits || '[]'),
+    reverts: JSON.parse(row.reverts || '[]'),
+    isVirtual: Boolean(row.isVirtual),
+    override: row.override ? JSON.parse(row.override) : null,
+    customTags: JSON.parse(row.customTags || '{}'),
+    storageLayout: row.storageLayout ? JSON.parse(row.storageLayout) : null,
     exampleCode: row.exampleCode,
+    contractName: row.contractName,
   }));
+
+  const { paramTypes } = query;
+  if (!paramTypes) return functions;
+
+  const wanted = paramTypes.join(',');
+  const abiTypes = getAbiTypeNames(db, version, product);
+  return functions.filter(f => {
+    const declared = f.params.map(p => normalizeTypeName(p.type));
+    if (declared.join(',') === wanted) return true;
+    if (f.canonicalSignature) return f.canonicalSignature === `${f.name}(${wanted})`;
+    // Internal and private functions have no canonical signature: resolve contract, enum and UDVT names
+    return declared.map(type => toAbiTypeName(type, abiTypes)).join(',') === wanted;
+  });
+}
+
+/**
+ * ABI type of each contract (address), enum (uint8) and user-defined value type
+ * (its underlying type) of a version
+ */
+function getAbiTypeNames(db: Database, version: string, product: string): Map<string, string> {
+  const rows = queryAll<{ name: string; abiType: string }>(db, `
+    SELECT name, 'address' as abiType FROM contracts
+    WHERE version = ? AND product = ? AND type IN ('contract', 'abstract', 'interface')
+    UNION ALL
+    SELECT m.name, CASE m.type WHEN 'enum' THEN 'uint8' ELSE m.data_type END as abiType
+    FROM members m
+    JOIN contracts c ON m.contract_id = c.id
+    WHERE c.version = ? AND c.product = ? AND (m.type = 'enum' OR (m.type = 'type' AND m.data_type IS NOT NULL))
+  `, [version, product, version, product]);
+  return new Map(rows.map(row => [row.name, row.abiType]));
+}
+
+/**
+ * 'IERC20' -> 'address', 'Rounding' -> 'uint8', 'IERC20[]' -> 'address[]'
+ */
+function toAbiTypeName(type: string, abiTypes: Map<string, string>): string {
+  const match = type.match(/^(\w+)(.*)$/);
+  const abiType = match && abiTypes.get(match[1]);
+  return abiType ? abiType + match[2] : type;
 }
 
 /**
@@ -404,11 +1598,15 @@ export function getFunction(
 export function listModules(
   db: Database,
   category: string = 'all',
-  version: string = '5.x'
+  version: string = '5.x',
+  variant: string = 'all',
+  product: string = 'contracts'
 ): Array<{
   name: string;
   type: string;
   category: string;
+  variant: string;
+  counterpart: string | null;
   description: string | null;
 }> {
   const sql = `
@@ -416,14 +1614,42 @@ export function listModules(
       name,
       type,
       category,
+      variant,
+      counterpart,
       natspec_notice as description
     FROM contracts
-    WHERE version = ?
+    WHERE version = ? AND product = ?
       AND (? = 'all' OR category = ?)
+      AND (? = 'all' OR variant = ?)
     ORDER BY category, name
   `;
 
-  return queryAll(db, sql, [version, category, category]);
+  return queryAll(db, sql, [version, product, category, category, variant, variant]);
+}
+
+/**
+ * Name of a contract in the requested variant: ERC20 resolves to
+ * ERC20Upgradeable for 'upgradeable' and back for 'standard'. Contracts shared
+ * by both packages (e.g. Initializable) and unknown names are returned as is.
+ */
+export function resolveVariantName(
+  db: Database,
+  name: string,
+  variant: string,
+  version: string = '5.x',
+  product: string = 'contracts'
+): string {
+  const row = queryOne<{ name: string; variant: string; counterpart: string | null }>(db, `
+    SELECT name, variant, counterpart
+    FROM contracts
+    WHERE LOWER(name) = LOWER(?) AND version = ? AND product = ?
+    ORDER BY name = ? DESC
+  `, [name, version, product, name]);
+
+  if (row && row.variant !== variant && row.counterpart) {
+    return row.counterpart;
+  }
+  return row?.name || name;
 }
 
 /**
@@ -431,15 +1657,50 @@ export function listModules(
  */
 export function getCategories(
   db: Database,
-  version: string = '5.x'
+  version: string = '5.x',
+  product: string = 'contracts'
 ): Array<{ category: string; count: number }> {
   const sql = `
     SELECT category, COUNT(*) as count
     FROM contracts
-    WHERE version = ?
+    WHERE version = ? AND product = ?
     GROUP BY category
     ORDER BY count DESC
   `;
 
-  return queryAll(db, sql, [version]);
+  return queryAll(db, sql, [version, product]);
+}
+
+/**
+ * Find members by 4-byte selector or 32-byte event topic across all versions
+ */
+export function lookupSelector(
+  db: Database,
+  selectors: string[]
+): Array<{
+  name: string;
+  type: string;
+  signature: string;
+  canonicalSignature: string;
+  selector: string;
+  contractName: string;
+  version: string;
+}> {
+  const placeholders = selectors.map(() => '?').join(', ');
+  const sql = `
+    SELECT
+      m.name,
+      m.type,
+      m.signature,
+      m.canonical_signature as canonicalSignature,
+      m.selector,
+      c.name as contractName,
+      c.version
+    FROM members m
+    JOIN contracts c ON m.contract_id = c.id
+    WHERE m.selector IN (${placeholders})
+    ORDER BY c.version DESC, c.name
+  `;
+
+  return queryAll(db, sql, selectors.map(s => s.toLowerCase()));
 }
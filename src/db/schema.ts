@@ -25,15 +25,47 @@ async function getSqlJs() {
   return SQL;
 }
 
+/**
+ * Version of the schema and of the data the indexer stores, kept in the
+ * database's `PRAGMA user_version`. Bump it whenever either changes, so that
+ * databases built by an older indexer are rebuilt rather than queried.
+ */
+export const SCHEMA_VERSION = 2;
+
 export const SCHEMA_SQL = `
+-- Releases indexed from the release manifest (releases.json)
+CREATE TABLE IF NOT EXISTS releases (
+    id INTEGER PRIMARY KEY,
+    product TEXT NOT NULL,           -- 'contracts', 'contracts-cairo', see PRODUCT_INFO
+    release TEXT NOT NULL,           -- '5.1.0', the version stored on every other row ('latest' for docs-only products)
+    tag TEXT NOT NULL,               -- 'v5.1.0'
+    series TEXT NOT NULL,            -- '5.x'
+    label TEXT                       -- Optional alias from the manifest
+);
+
+-- Documentation sections (h2/h3 of a page) the chunks are cut from
+CREATE TABLE IF NOT EXISTS doc_sections (
+    id INTEGER PRIMARY KEY,
+    product TEXT NOT NULL DEFAULT 'contracts',
+    version TEXT NOT NULL,
+    title TEXT NOT NULL,
+    breadcrumb TEXT,                 -- Heading path, e.g. 'ERC20 > Extensions > Permit'
+    content TEXT NOT NULL,           -- Whole section
+    source_url TEXT
+);
+
 -- Main documentation chunks
 CREATE TABLE IF NOT EXISTS docs (
     id INTEGER PRIMARY KEY,
-    version TEXT NOT NULL,           -- '4.x' or '5.x'
+    section_id INTEGER REFERENCES doc_sections(id),
+    chunk_index INTEGER NOT NULL DEFAULT 0, -- Position within the section
+    product TEXT NOT NULL DEFAULT 'contracts',
+    version TEXT NOT NULL,           -- Release, e.g. '5.3.0' (newest indexed release of the docs' major version)
     category TEXT NOT NULL,          -- 'access', 'token', 'utils', 'governance', 'proxy', etc.
     module TEXT NOT NULL,            -- 'ERC20', 'Ownable', 'ECDSA', etc.
     title TEXT NOT NULL,
-    content TEXT NOT NULL,           -- Full text content
+    breadcrumb TEXT,                 -- Heading path, e.g. 'ERC20 > Extensions > Permit'
+    content TEXT NOT NULL,           -- Heading path, then a size-bounded part of the section
     source_type TEXT NOT NULL,       -- 'guide', 'api', 'natspec'
     source_url TEXT,                 -- Link to docs.openzeppelin.com
     file_path TEXT                   -- Original file path
@@ -42,12 +74,21 @@ CREATE TABLE IF NOT EXISTS docs (
 -- Contract/Library specific info extracted from source
 CREATE TABLE IF NOT EXISTS contracts (
     id INTEGER PRIMARY KEY,
-    version TEXT NOT NULL,
-    name TEXT NOT NULL,              -- 'ERC20', 'SafeERC20', etc.
-    type TEXT NOT NULL,              -- 'contract', 'library', 'interface', 'abstract'
+    product TEXT NOT NULL DEFAULT 'contracts',
+    version TEXT NOT NULL,           -- Release, e.g. '5.3.0'
+    name TEXT NOT NULL,              -- 'ERC20', 'SafeERC20', etc. (source path for 'file', module path for Cairo)
+    type TEXT NOT NULL,              -- 'contract', 'library', 'interface', 'abstract', 'component' (Cairo), 'file'
     category TEXT NOT NULL,
     inheritance TEXT,                -- JSON array of parent contracts
+    variant TEXT NOT NULL DEFAULT 'standard', -- 'standard' or 'upgradeable' (openzeppelin-contracts-upgradeable)
+    counterpart TEXT,                -- Name of the same contract in the other variant
+    source_path TEXT,                -- 'contracts/token/ERC20/ERC20.sol', see sources
+    import_path TEXT,                -- '@openzeppelin/contracts/token/ERC20/ERC20.sol', 'openzeppelin_token::erc20::ERC20Component'
+    start_line INTEGER,              -- Declaration lines within the source file
+    end_line INTEGER,
+    natspec_title TEXT,              -- @title from NatSpec
     natspec_notice TEXT,             -- @notice from NatSpec
+    custom_tags TEXT,                -- JSON object of @custom:<key> values
     source_url TEXT
 );
 
@@ -56,27 +97,88 @@ CREATE TABLE IF NOT EXISTS members (
     id INTEGER PRIMARY KEY,
     contract_id INTEGER REFERENCES contracts(id),
     name TEXT NOT NULL,
-    type TEXT NOT NULL,              -- 'function', 'event', 'error', 'modifier'
+    type TEXT NOT NULL,              -- 'function', 'event', 'error', 'modifier', 'variable', 'struct', 'enum', 'type', 'using'
     signature TEXT NOT NULL,         -- Full signature
     visibility TEXT,                 -- 'public', 'external', 'internal', 'private'
-    mutability TEXT,                 -- 'view', 'pure', 'payable', ''
-    params TEXT,                     -- JSON array of {name, type, description}
+    mutability TEXT,                 -- 'view', 'pure', 'payable', 'constant', 'immutable', ''
+    params TEXT,                     -- JSON array of {name, type, description} (struct fields, enum values)
     returns TEXT,                    -- JSON array of {type, description}
     natspec_notice TEXT,
     natspec_dev TEXT,
+    natspec_source TEXT,             -- 'IERC20.transfer' when docs were inherited
+    data_type TEXT,                  -- Variable type, UDVT underlying type, using-for target
+    value TEXT,                      -- Initializer of constants and immutables
+    canonical_signature TEXT,        -- ABI signature, e.g. 'transfer(address,uint256)'
+    selector TEXT,                   -- 4-byte selector (functions, errors) or topic0 (events)
+    abi TEXT,                        -- JSON ABI fragment for externally visible members
+    modifiers TEXT,                  -- JSON array of {name, arguments} applied to functions
+    calls TEXT,                      -- JSON array of {name, kind, qualifier, argumentCount, line} made by functions and modifiers
+    emits TEXT,                      -- JSON array of {name, qualifier, line} of emit statements
+    reverts TEXT,                    -- JSON array of {name, qualifier, message, callerCheck, line} of reverts and require reasons
+    is_virtual INTEGER,              -- 1 if the function is declared virtual
+    override TEXT,                   -- JSON array of bases from override(...), NULL if not an override
+    custom_tags TEXT,                -- JSON object of @custom:<key> values, e.g. {"oz-upgrades-unsafe-allow": "constructor"}
+    storage_layout TEXT,             -- JSON ERC-7201 namespace, slot and field layout of namespaced storage structs
+    start_line INTEGER,              -- Declaration lines (body included) within the contract's source file
+    end_line INTEGER,
     example_code TEXT
 );
 
+-- Calls and modifier invocations of functions and modifiers, resolved at index
+-- time in the linearization of the declaring contract
+CREATE TABLE IF NOT EXISTS call_edges (
+    id INTEGER PRIMARY KEY,
+    member_id INTEGER REFERENCES members(id), -- Calling function or modifier
+    callee_contract TEXT NOT NULL,   -- Declaring contract, or the receiver of an unresolved external call
+    callee_name TEXT NOT NULL,
+    callee_signature TEXT,           -- NULL when the call could not be resolved
+    kind TEXT NOT NULL,              -- 'internal', 'this', 'super', 'base', 'library', 'modifier', 'external'
+    line INTEGER                     -- Line of the call site in the caller's file
+);
+
+-- Full Solidity and Cairo source of every indexed file
+CREATE TABLE IF NOT EXISTS sources (
+    id INTEGER PRIMARY KEY,
+    product TEXT NOT NULL DEFAULT 'contracts',
+    version TEXT NOT NULL,           -- Release, e.g. '5.3.0'
+    variant TEXT NOT NULL DEFAULT 'standard',
+    path TEXT NOT NULL,              -- 'contracts/token/ERC20/ERC20.sol'
+    import_path TEXT NOT NULL,       -- '@openzeppelin/contracts/token/ERC20/ERC20.sol', module path for Cairo
+    imports TEXT,                    -- JSON array of the import paths of the file's own imports
+    content TEXT NOT NULL
+);
+
+-- Entries of CHANGELOG.md from the newest indexed release's checkout
+CREATE TABLE IF NOT EXISTS changelog (
+    id INTEGER PRIMARY KEY,
+    release TEXT NOT NULL,           -- Release heading, e.g. '5.0.0' (also releases that are not indexed)
+    release_date TEXT,               -- '2023-10-05'
+    section TEXT,                    -- Headings below the release, e.g. 'Breaking Changes > Custom error changes'
+    content TEXT NOT NULL,           -- Markdown of the entry
+    breaking INTEGER NOT NULL DEFAULT 0, -- 1 under a breaking changes/removals heading or marked breaking
+    contracts TEXT,                  -- JSON array of indexed contracts the entry mentions
+    members TEXT,                    -- JSON array of 'Contract.member' references
+    pull_requests TEXT,              -- JSON array of pull request numbers
+    source_url TEXT                  -- Link to the release's section of the changelog
+);
+
 -- Create indexes for common queries
-CREATE INDEX IF NOT EXISTS idx_docs_version ON docs(version);
+CREATE INDEX IF NOT EXISTS idx_docs_version ON docs(product, version);
 CREATE INDEX IF NOT EXISTS idx_docs_category ON docs(category);
 CREATE INDEX IF NOT EXISTS idx_docs_module ON docs(module);
-CREATE INDEX IF NOT EXISTS idx_contracts_version ON contracts(version);
+CREATE INDEX IF NOT EXISTS idx_docs_section ON docs(section_id);
+CREATE INDEX IF NOT EXISTS idx_contracts_version ON contracts(product, version);
 CREATE INDEX IF NOT EXISTS idx_contracts_name ON contracts(name);
 CREATE INDEX IF NOT EXISTS idx_contracts_category ON contracts(category);
 CREATE INDEX IF NOT EXISTS idx_members_contract_id ON members(contract_id);
 CREATE INDEX IF NOT EXISTS idx_members_name ON members(name);
 CREATE INDEX IF NOT EXISTS idx_members_type ON members(type);
+CREATE INDEX IF NOT EXISTS idx_members_selector ON members(selector);
+CREATE INDEX IF NOT EXISTS idx_call_edges_member_id ON call_edges(member_id);
+CREATE INDEX IF NOT EXISTS idx_call_edges_callee ON call_edges(callee_contract, callee_signature);
+CREATE INDEX IF NOT EXISTS idx_sources_path ON sources(product, version, path);
+CREATE INDEX IF NOT EXISTS idx_sources_import_path ON sources(product, version, import_path);
+CREATE INDEX IF NOT EXISTS idx_changelog_release ON changelog(release);
 `;
 
 export const FTS_SCHEMA_SQL = `
@@ -86,6 +188,7 @@ CREATE VIRTUAL TABLE IF NOT EXISTS docs_fts USING fts4(
     content,
     module,
     category,
+    breadcrumb,
     content='docs'
 );
 
@@ -100,8 +203,8 @@ CREATE VIRTUAL TABLE IF NOT EXISTS members_fts USING fts4(
 
 -- Triggers to keep FTS indexes in sync
 CREATE TRIGGER IF NOT EXISTS docs_ai AFTER INSERT ON docs BEGIN
-    INSERT INTO docs_fts(docid, title, content, module, category)
-    VALUES (new.id, new.title, new.content, new.module, new.category);
+    INSERT INTO docs_fts(docid, title, content, module, category, breadcrumb)
+    VALUES (new.id, new.title, new.content, new.module, new.category, new.breadcrumb);
 END;
 
 CREATE TRIGGER IF NOT EXISTS docs_ad AFTER DELETE ON docs BEGIN
@@ -110,8 +213,8 @@ END;
 
 CREATE TRIGGER IF NOT EXISTS docs_au AFTER UPDATE ON docs BEGIN
     DELETE FROM docs_fts WHERE docid = old.id;
-    INSERT INTO docs_fts(docid, title, content, module, category)
-    VALUES (new.id, new.title, new.content, new.module, new.category);
+    INSERT INTO docs_fts(docid, title, content, module, category, breadcrumb)
+    VALUES (new.id, new.title, new.content, new.module, new.category, new.breadcrumb);
 END;
 
 CREATE TRIGGER IF NOT EXISTS members_ai AFTER INSERT ON members BEGIN
@@ -170,6 +273,7 @@ export async function resetDatabase(dbPath: string): Promise<SqlJsDatabase> {
   // Execute schema (no need to drop since it's a fresh database)
   db.run(SCHEMA_SQL);
   db.run(FTS_SCHEMA_SQL);
+  db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`);
 
   // Save to file
   saveDatabase(db, dbPath);
@@ -177,6 +281,14 @@ export async function resetDatabase(dbPath: string): Promise<SqlJsDatabase> {
   return db;
 }
 
+/**
+ * Schema version a database was built with, 0 for databases that predate it
+ */
+export function getSchemaVersion(db: SqlJsDatabase): number {
+  const result = db.exec('PRAGMA user_version');
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
 export function saveDatabase(db: SqlJsDatabase, dbPath: string): void {
   const data = db.export();
   const buffer = Buffer.from(data);
@@ -0,0 +1,284 @@
+import type {
+  ContractInfo,
+  ParamInfo,
+  ReturnInfo,
+  FunctionInfo,
+  AbiParameter,
+  AbiFragment,
+} from '../types.js';
+
+const ELEMENTARY_TYPE_PATTERN = /^(u?int\d*|bytes\d*|address|bool|string|function|fixed|ufixed)$/;
+const ARRAY_SUFFIX_PATTERN = /^(.+)(\[\d*\])$/;
+
+export type TypeDefinition =
+  | { kind: 'struct'; fields: ParamInfo[]; container: ContractInfo }
+  | { kind: 'enum' }
+  | { kind: 'udvt'; underlying: string };
+
+/**
+ * Lookup tables for resolving type names within one version. Contract-level
+ * definitions are keyed as 'Contract.Name', file-level ones by plain name.
+ */
+export interface TypeIndex {
+  contracts: Map<string, ContractInfo>;
+  definitions: Map<string, TypeDefinition>;
+}
+
+export function buildTypeIndex(contracts: ContractInfo[]): TypeIndex {
+  const index: TypeIndex = { contracts: new Map(), definitions: new Map() };
+  const define = (key: string, definition: TypeDefinition) => {
+    if (!index.definitions.has(key)) {
+      index.definitions.set(key, definition);
+    }
+  };
+
+  for (const contract of contracts) {
+    if (contract.type !== 'file' && !index.contracts.has(contract.name)) {
+      index.contracts.set(contract.name, contract);
+    }
+
+    const prefix = contract.type === 'file' ? '' : `${contract.name}.`;
+    for (const struct of contract.structs) {
+      define(`${prefix}${struct.name}`, { kind: 'struct', fields: struct.fields, container: contract });
+    }
+    for (const enumInfo of contract.enums) {
+      define(`${prefix}${enumInfo.name}`, { kind: 'enum' });
+    }
+    for (const userType of contract.userTypes) {
+      define(`${prefix}${userType.name}`, { kind: 'udvt', underlying: userType.underlyingType });
+    }
+  }
+
+  return index;
+}
+
+/**
+ * ABI parameter for a type name as written inside `context`: structs become
+ * tuples with components, contracts become address, enums become uint8 and
+ * user-defined value types become their underlying type. Returns undefined
+ * when the type cannot be resolved (e.g. mappings, unknown imports).
+ */
+export function resolveAbiParameter(
+  index: TypeIndex,
+  name: string,
+  typeName: string,
+  context: ContractInfo,
+  visiting: Set<string> = new Set()
+): AbiParameter | undefined {
+  const array = typeName.match(ARRAY_SUFFIX_PATTERN);
+  if (array) {
+    const base = resolveAbiParameter(index, name, array[1], context, visiting);
+    if (!base) return undefined;
+    return { ...base, type: base.type + array[2], internalType: base.internalType + array[2] };
+  }
+
+  if (ELEMENTARY_TYPE_PATTERN.test(typeName)) {
+    let type = typeName;
+    if (typeName === 'uint' || typeName === 'int') type = `${typeName}256`;
+    if (typeName === 'fixed' || typeName === 'ufixed') type = `${typeName}128x18`;
+    return { name, type, internalType: type };
+  }
+
+  const key = findDefinition(index, typeName, context);
+  if (key) {
+    const definition = index.definitions.get(key)!;
+    switch (definition.kind) {
+      case 'enum':
+        return { name, type: 'uint8', internalType: `enum ${key}` };
+      case 'udvt': {
+        const underlying = resolveAbiParameter(index, name, definition.underlying, context, visiting);
+        return underlying && { ...underlying, internalType: key };
+      }
+      case 'struct': {
+        if (visiting.has(key)) return undefined;
+        visiting.add(key);
+        const components = definition.fields.map(f =>
+          resolveAbiParameter(index, f.name, f.type, definition.container, visiting)
+        );
+        visiting.delete(key);
+        if (!components.every(Boolean)) return undefined;
+        return { name, type: 'tuple', internalType: `struct ${key}`, components: components as AbiParameter[] };
+      }
+    }
+  }
+
+  if (index.contracts.has(typeName)) {
+    return { name, type: 'address', internalType: `contract ${typeName}` };
+  }
+  return undefined;
+}
+
+/**
+ * Return values of the getters of public struct-typed state variables: solc
+ * returns the struct's members one by one, leaving out mappings and arrays
+ * (but not `bytes` or `string`). The parser cannot resolve structs declared
+ * in other files, so getters are expanded here, once every contract of the
+ * version is parsed. Returns the number of getters expanded.
+ */
+export function expandStructGetters(contracts: ContractInfo[]): number {
+  const index = buildTypeIndex(contracts);
+  let expanded = 0;
+
+  for (const contract of contracts) {
+    for (const variable of contract.stateVariables) {
+      if (variable.visibility !== 'public') continue;
+      const getter = contract.functions.find(f =>
+        f.name === variable.name && f.startLine === variable.startLine && f.returns.length === 1
+      );
+      const key = getter && findDefinition(index, getter.returns[0].type, contract);
+      const definition = key ? index.definitions.get(key) : undefined;
+      if (!getter || definition?.kind !== 'struct') continue;
+
+      getter.returns = definition.fields
+        .filter(field => !field.type.startsWith('mapping') && !ARRAY_SUFFIX_PATTERN.test(field.type))
+        .map(field => ({
+          name: field.name,
+          type: qualifyType(index, field.type, definition.container, contract),
+        }));
+      getter.signature = getter.signature.replace(
+        / returns \(.*\)$/,
+        ` returns (${getter.returns.map(r => r.type).join(', ')})`
+      );
+      expanded++;
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Type name of a struct field as written in `container`, qualified with the
+ * container's name (as seen from `context`) when it is one of its definitions
+ */
+function qualifyType(index: TypeIndex, typeName: string, container: ContractInfo, context: ContractInfo): string {
+  if (container === context || container.type === 'file') return typeName;
+  const key = `${container.name}.${typeName}`;
+  return index.definitions.has(key) ? key : typeName;
+}
+
+/**
+ * Canonical type used in signatures: tuples are expanded to their components
+ */
+export function canonicalType(param: AbiParameter): string {
+  if (param.type.startsWith('tuple')) {
+    const suffix = param.type.slice('tuple'.length);
+    return `(${(param.components || []).map(canonicalType).join(',')})${suffix}`;
+  }
+  return param.type;
+}
+
+/**
+ * Canonical signature such as `transfer(address,uint256)`, or undefined when
+ * any parameter type cannot be resolved.
+ */
+export function buildCanonicalSignature(
+  index: TypeIndex,
+  name: string,
+  params: ParamInfo[],
+  context: ContractInfo
+): string | undefined {
+  const inputs = resolveParams(index, params, context);
+  return inputs && `${name}(${inputs.map(canonicalType).join(',')})`;
+}
+
+/**
+ * Build the standard Solidity ABI fragment for every public/external function,
+ * event and error of the given contracts, which should hold a single version.
+ * Returns the number of fragments built.
+ */
+export function buildAbiFragments(contracts: ContractInfo[]): number {
+  const index = buildTypeIndex(contracts);
+  let built = 0;
+
+  for (const contract of contracts) {
+    for (const func of contract.functions) {
+      func.abi = buildFunctionFragment(index, func, contract);
+      if (func.abi) built++;
+    }
+
+    for (const event of contract.events) {
+      const inputs = resolveParams(index, event.params, contract);
+      if (inputs) {
+        event.abi = { type: 'event', name: event.name, inputs, anonymous: Boolean(event.isAnonymous) };
+        built++;
+      }
+    }
+
+    for (const error of contract.errors) {
+      const inputs = resolveParams(index, error.params, contract);
+      if (inputs) {
+        error.abi = { type: 'error', name: error.name, inputs };
+        built++;
+      }
+    }
+  }
+
+  return built;
+}
+
+function buildFunctionFragment(index: TypeIndex, func: FunctionInfo, contract: ContractInfo): AbiFragment | undefined {
+  const stateMutability = func.mutability === 'view' || func.mutability === 'pure' || func.mutability === 'payable'
+    ? func.mutability
+    : 'nonpayable';
+
+  if (func.name === 'constructor') {
+    const inputs = resolveParams(index, func.params, contract);
+    return inputs && { type: 'constructor', inputs, stateMutability };
+  }
+  if (func.name === 'fallback' || func.name === 'receive') {
+    return { type: func.name, stateMutability };
+  }
+  if (func.visibility !== 'public' && func.visibility !== 'external') {
+    return undefined;
+  }
+
+  const inputs = resolveParams(index, func.params, contract);
+  const outputs = resolveParams(index, func.returns, contract);
+  if (!inputs || !outputs) return undefined;
+
+  return { type: 'function', name: func.name, inputs, outputs, stateMutability };
+}
+
+function resolveParams(
+  index: TypeIndex,
+  params: Array<ParamInfo | ReturnInfo>,
+  context: ContractInfo
+): AbiParameter[] | undefined {
+  const resolved: AbiParameter[] = [];
+  for (const param of params) {
+    const abiParam = resolveAbiParameter(index, param.name || '', param.type, context);
+    if (!abiParam) return undefined;
+    if ('indexed' in param && param.indexed !== undefined) {
+      abiParam.indexed = param.indexed;
+    }
+    resolved.push(abiParam);
+  }
+  return resolved;
+}
+
+/**
+ * Look a type up the way solc scopes it: the contract itself, then its bases,
+ * then file-level definitions, then a unique qualified match anywhere.
+ * Returns the definition key, e.g. 'Checkpoints.Trace208'.
+ */
+export function findDefinition(index: TypeIndex, typeName: string, context: ContractInfo): string | undefined {
+  const queue = [context.name];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const key = `${name}.${typeName}`;
+    if (index.definitions.has(key)) return key;
+    queue.push(...(index.contracts.get(name)?.inheritance || []));
+  }
+
+  if (index.definitions.has(typeName)) {
+    return typeName;
+  }
+
+  const suffix = `.${typeName}`;
+  const candidates = [...index.definitions.keys()].filter(k => k.endsWith(suffix));
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
@@ -1,27 +1,69 @@
 import path from 'path';
 import fs from 'fs/promises';
 import { resetDatabase, saveDatabase, type Database } from '../db/schema.js';
-import { fetchDocs, getReposPaths } from './fetch-docs.js';
+import { resolveCallEdges } from '../db/queries.js';
+import { fetchDocs, getReposPaths, getReleaseSources } from './fetch-docs.js';
+import { loadReleaseManifest, PRODUCT_INFO, UNVERSIONED_RELEASE, type Release, type ReleaseSources } from './releases.js';
+import { resolveLocalSources } from './local-sources.js';
 import { parseMdxFiles } from './parse-mdx.js';
+import { parseAsciidocFiles } from './parse-asciidoc.js';
+import { chunkSection, DEFAULT_CHUNK_OPTIONS, type ChunkOptions } from './chunk-docs.js';
 import { parseSolidityFiles } from './parse-solidity.js';
-import type { DocChunk, ContractInfo } from '../types.js';
+import { parseCairoFiles, findCairoModules, parseCairoImports } from './parse-cairo.js';
+import { resolveInheritedNatSpec } from './resolve-natspec.js';
+import { computeSelectors } from './selectors.js';
+import { buildAbiFragments, expandStructGetters } from './abi.js';
+import { computeStorageLayouts } from './storage-layout.js';
+import { mergeUpgradeableVariant } from './upgradeable.js';
+import { parseImports, fromImportPath, toImportPath } from './imports.js';
+import { parseChangelog, linkChangelogEntry } from './parse-changelog.js';
+import type {
+  DocChunk,
+  ChangelogEntry,
+  ContractInfo,
+  ParamInfo,
+  ReturnInfo,
+  AbiFragment,
+  ModifierInvocationInfo,
+  CallInfo,
+  RaiseSite,
+  CustomTags,
+  StorageLayoutInfo,
+  ContractVariant,
+} from '../types.js';
 
 export interface BuildOptions {
   dataDir: string;
   dbPath: string;
+  manifestPath: string; // releases.json listing the releases to index
+  sources?: string[]; // Local source roots to index instead of the manifest, see resolveLocalSources
   skipFetch?: boolean;
   force?: boolean;
+  chunking?: ChunkOptions; // Size of the documentation chunks, see chunkSection
 }
 
 export async function buildIndex(options: BuildOptions): Promise<void> {
-  const { dataDir, dbPath, skipFetch = false, force = false } = options;
+  const { dataDir, dbPath, manifestPath, sources = [], skipFetch = false, force = false, chunking = DEFAULT_CHUNK_OPTIONS } = options;
+  if (!(chunking.targetTokens > 0) || !(chunking.overlapTokens >= 0) || chunking.overlapTokens >= chunking.targetTokens) {
+    throw new Error(
+      `Invalid chunk size ${chunking.targetTokens} with overlap ${chunking.overlapTokens} (the overlap must be smaller than the size)`
+    );
+  }
 
   console.log('=== OpenZeppelin Docs Indexer ===\n');
 
-  // Step 1: Fetch docs (unless skipped)
-  if (!skipFetch) {
+  const local = sources.length > 0 ? await resolveLocalSources(sources) : null;
+  const releases = local ? local.map(l => l.release) : await loadReleaseManifest(manifestPath);
+  const sourcesOf = (release: Release): ReleaseSources =>
+    local?.find(l => l.release === release)?.sources ?? getReleaseSources(dataDir, release);
+  console.log(`Releases: ${releases.map(r => `${r.product}@${r.tag}`).join(', ')}\n`);
+
+  // Step 1: Fetch docs (unless skipped or indexing local sources)
+  if (local) {
+    console.log('Step 1: Using local sources (documentation from existing repos only)\n');
+  } else if (!skipFetch) {
     console.log('Step 1: Fetching documentation repositories...');
-    await fetchDocs({ dataDir, force });
+    await fetchDocs({ dataDir, releases, force });
     console.log('');
   } else {
     console.log('Step 1: Skipping fetch (using existing repos)\n');
@@ -35,25 +77,90 @@ export async function buildIndex(options: BuildOptions): Promise<void> {
 
   const repos = getReposPaths(dataDir);
 
-  // Step 3: Parse and index MDX documentation
-  console.log('Step 3: Parsing MDX documentation...');
-  const docChunks = await parseMdxFiles(repos.docs);
-  console.log(`Found ${docChunks.length} documentation chunks`);
-  insertDocs(db, docChunks);
-  console.log('');
+  // Step 3: Parse and index MDX documentation of the indexed products. The
+  // docs site has one set of pages per release series (e.g. 5.x/); they are
+  // attached to the newest release indexed for that series and skipped when
+  // none is. Unversioned pages go to the product's newest release. Sections
+  // are stored whole and cut into size-bounded chunks for search.
+  console.log('Step 3: Parsing MDX and AsciiDoc documentation...');
+  const products = [...new Set(releases.map(r => r.product))];
+  const docChunks = (await parseMdxFiles(repos.docs, products)).flatMap(chunk => {
+    const release = releases.find(r => r.product === chunk.product && matchesSeries(r, chunk.version));
+    return release ? [{ ...chunk, version: release.release }] : [];
+  });
+  console.log(`Found ${docChunks.length} documentation sections`);
 
-  // Step 4: Parse and index Solidity contracts (v5)
-  console.log('Step 4: Parsing Solidity contracts (v5.x)...');
-  const contractsV5 = await parseSolidityFiles(repos.contractsV5, '5.x');
-  console.log(`Found ${contractsV5.length} contracts in v5`);
-  insertContracts(db, contractsV5);
+  // Older releases (and products not yet on the docs site) are documented in
+  // AsciiDoc in their own checkout; it is parsed for the newest release of
+  // each series that the MDX pages do not cover.
+  const seriesKey = (product: string, version: string) =>
+    `${product}@${releases.find(r => r.product === product && r.release === version)?.series}`;
+  const documented = new Set(docChunks.map(chunk => seriesKey(chunk.product ?? 'contracts', chunk.version)));
+  for (const release of releases) {
+    const pagesDir = sourcesOf(release).docs;
+    const key = seriesKey(release.product, release.release);
+    if (!pagesDir || documented.has(key) || !await directoryExists(pagesDir)) continue;
+    const chunks = await parseAsciidocFiles(pagesDir, {
+      product: release.product,
+      version: release.release,
+      series: release.series,
+    });
+    console.log(`Found ${chunks.length} AsciiDoc documentation sections in ${release.product} ${release.tag}`);
+    if (chunks.length > 0) documented.add(key);
+    docChunks.push(...chunks);
+  }
+  insertDocs(db, docChunks, chunking);
   console.log('');
 
-  // Step 5: Parse and index Solidity contracts (v4)
-  console.log('Step 5: Parsing Solidity contracts (v4.x)...');
-  const contractsV4 = await parseSolidityFiles(repos.contractsV4, '4.x');
-  console.log(`Found ${contractsV4.length} contracts in v4`);
-  insertContracts(db, contractsV4);
+  // Step 4: Parse and index the contracts of every release of a product with
+  // sources
+  insertReleases(db, releases);
+  for (const [index, release] of releases.entries()) {
+    const { language } = PRODUCT_INFO[release.product];
+    const roots = sourcesOf(release);
+    if (language === 'cairo') {
+      console.log(`Step 4.${index + 1}: Parsing Cairo contracts (${release.product} ${release.tag})...`);
+      const contracts = roots.standard ? await parseCairoFiles(roots.standard, release.release, release.tag) : [];
+      console.log(`Found ${contracts.length} components, contracts and traits in ${release.tag}`);
+      insertContracts(db, contracts);
+      if (roots.standard) await insertCairoSources(db, release.release, roots.standard);
+      console.log('');
+      continue;
+    }
+    if (language !== 'solidity') continue;
+
+    console.log(`Step 4.${index + 1}: Parsing Solidity contracts (${release.tag})...`);
+    const contracts = mergeUpgradeableVariant(
+      roots.standard ? await parseSolidityFiles(roots.standard, release.release, 'standard', release.tag) : [],
+      roots.upgradeable ? await parseSolidityFiles(roots.upgradeable, release.release, 'upgradeable', release.tag) : []
+    );
+    console.log(`Found ${contracts.length} contracts in ${release.tag} (including upgradeable)`);
+    console.log(`Resolved inherited NatSpec for ${resolveInheritedNatSpec(contracts)} members`);
+    console.log(`Expanded ${expandStructGetters(contracts)} struct getters`);
+    console.log(`Computed selectors for ${computeSelectors(contracts)} members`);
+    console.log(`Built ${buildAbiFragments(contracts)} ABI fragments`);
+    console.log(`Computed ${computeStorageLayouts(contracts)} ERC-7201 storage layouts`);
+    insertContracts(db, contracts);
+    insertCallEdges(db, release.release, release.product);
+    await insertSources(db, release.release, contracts, roots);
+    console.log('');
+  }
+
+  // Step 5: Parse the changelog of the newest Contracts release, which covers
+  // every earlier one
+  console.log('Step 5: Parsing CHANGELOG.md...');
+  const newest = releases.find(r => r.product === 'contracts');
+  const changelogPath = newest && sourcesOf(newest).changelog;
+  if (newest && changelogPath && await fileExists(changelogPath)) {
+    const entries = parseChangelog(
+      await fs.readFile(changelogPath, 'utf-8'),
+      `https://github.com/OpenZeppelin/openzeppelin-contracts/blob/${newest.tag}/CHANGELOG.md`
+    );
+    console.log(`Found ${entries.length} changelog entries`);
+    insertChangelog(db, entries);
+  } else {
+    console.warn(`Warning: no CHANGELOG.md for ${newest?.tag ?? 'Contracts'}, skipping the changelog`);
+  }
   console.log('');
 
   // Step 6: Output stats
@@ -65,29 +172,75 @@ export async function buildIndex(options: BuildOptions): Promise<void> {
   db.close();
 }
 
-function insertDocs(db: Database, chunks: DocChunk[]): void {
+/**
+ * Whether docs of a series directory ('5.x', '0.20.x') or unversioned docs
+ * belong to a release. Releases are newest first, so the first match wins.
+ */
+function matchesSeries(release: Release, series: string): boolean {
+  if (series === UNVERSIONED_RELEASE) return true;
+  return release.series === series || release.release.startsWith(series.replace(/x$/, ''));
+}
+
+function insertReleases(db: Database, releases: Release[]): void {
+  for (const release of releases) {
+    db.run(`
+      INSERT INTO releases (product, release, tag, series, label)
+      VALUES (?, ?, ?, ?, ?)
+    `, [release.product, release.release, release.tag, release.series, release.label || null]);
+  }
+}
+
+/**
+ * Store each parsed section, and the size-bounded chunks cut from it that
+ * search runs on
+ */
+function insertDocs(db: Database, sections: DocChunk[], chunking: ChunkOptions): void {
   // Use a transaction for better performance
   db.run('BEGIN TRANSACTION');
 
   try {
-    for (const chunk of chunks) {
+    let chunkCount = 0;
+
+    for (const section of sections) {
+      const breadcrumb = section.breadcrumb?.join(' > ') || null;
       db.run(`
-        INSERT INTO docs (version, category, module, title, content, source_type, source_url, file_path)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO doc_sections (product, version, title, breadcrumb, content, source_url)
+        VALUES (?, ?, ?, ?, ?, ?)
       `, [
-        chunk.version,
-        chunk.category,
-        chunk.module,
-        chunk.title,
-        chunk.content,
-        chunk.sourceType,
-        chunk.sourceUrl || null,
-        chunk.filePath || null
+        section.product || 'contracts',
+        section.version,
+        section.title,
+        breadcrumb,
+        section.content,
+        section.sourceUrl || null
       ]);
+      const result = db.exec('SELECT last_insert_rowid() as id');
+      const sectionId = result[0].values[0][0] as number;
+
+      for (const [index, chunk] of chunkSection(section, chunking).entries()) {
+        db.run(`
+          INSERT INTO docs (section_id, chunk_index, product, version, category, module, title, breadcrumb, content, source_type, source_url, file_path)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          sectionId,
+          index,
+          chunk.product || 'contracts',
+          chunk.version,
+          chunk.category,
+          chunk.module,
+          chunk.title,
+          breadcrumb,
+          chunk.content,
+          chunk.sourceType,
+          chunk.sourceUrl || null,
+          chunk.filePath || null
+        ]);
+        chunkCount++;
+      }
     }
 
     db.run('COMMIT');
-    console.log(`Inserted ${chunks.length} documentation chunks`);
+    console.log(`Inserted ${sections.length} documentation sections in ${chunkCount} chunks`);
   } catch (error) {
     db.run('ROLLBACK');
     throw error;
@@ -102,15 +255,24 @@ function insertContracts(db: Database, contracts: ContractInfo[]): void {
 
     for (const contract of contracts) {
       db.run(`
-        INSERT INTO contracts (version, name, type, category, inheritance, natspec_notice, source_url)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO contracts (product, version, name, type, category, inheritance, variant, counterpart, source_path, import_path, start_line, end_line, natspec_title, natspec_notice, custom_tags, source_url)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
+        contract.product || 'contracts',
         contract.version,
         contract.name,
         contract.type,
         contract.category,
         JSON.stringify(contract.inheritance),
+        contract.variant || 'standard',
+        contract.counterpart || null,
+        contract.sourcePath || null,
+        contract.importPath || null,
+        contract.startLine ?? null,
+        contract.endLine ?? null,
+        contract.natspecTitle || null,
         contract.natspecNotice || null,
+        JSON.stringify(contract.customTags || {}),
         contract.sourceUrl || null
       ]);
 
@@ -120,85 +282,130 @@ function insertContracts(db: Database, contracts: ContractInfo[]): void {
 
       // Insert functions
       for (const func of contract.functions) {
-        db.run(`
-          INSERT INTO members (contract_id, name, type, signature, visibility, mutability, params, returns, natspec_notice, natspec_dev, example_code)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          contractId,
-          func.name,
-          'function',
-          func.signature,
-          func.visibility,
-          func.mutability || null,
-          JSON.stringify(func.params),
-          JSON.stringify(func.returns),
-          func.natspecNotice || null,
-          func.natspecDev || null,
-          func.exampleCode || null
-        ]);
+        insertMember(db, contractId, {
+          name: func.name,
+          type: 'function',
+          signature: func.signature,
+          visibility: func.visibility,
+          mutability: func.mutability || null,
+          params: func.params,
+          returns: func.returns,
+          natspecNotice: func.natspecNotice,
+          natspecDev: func.natspecDev,
+          customTags: func.customTags,
+          startLine: func.startLine,
+          endLine: func.endLine,
+          natspecSource: func.natspecSource,
+          canonicalSignature: func.canonicalSignature,
+          selector: func.selector,
+          abi: func.abi,
+          modifiers: func.modifiers,
+          calls: func.calls,
+          emits: func.emits,
+          reverts: func.reverts,
+          isVirtual: func.isVirtual,
+          override: func.override,
+          exampleCode: func.exampleCode,
+        });
         memberCount++;
       }
 
       // Insert events
       for (const event of contract.events) {
-        db.run(`
-          INSERT INTO members (contract_id, name, type, signature, visibility, mutability, params, returns, natspec_notice, natspec_dev, example_code)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          contractId,
-          event.name,
-          'event',
-          event.signature,
-          null,
-          null,
-          JSON.stringify(event.params),
-          '[]',
-          event.natspecNotice || null,
-          event.natspecDev || null,
-          null
-        ]);
+        insertMember(db, contractId, { ...event, type: 'event' });
         memberCount++;
       }
 
       // Insert errors
       for (const error of contract.errors) {
-        db.run(`
-          INSERT INTO members (contract_id, name, type, signature, visibility, mutability, params, returns, natspec_notice, natspec_dev, example_code)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          contractId,
-          error.name,
-          'error',
-          error.signature,
-          null,
-          null,
-          JSON.stringify(error.params),
-          '[]',
-          error.natspecNotice || null,
-          error.natspecDev || null,
-          null
-        ]);
+        insertMember(db, contractId, { ...error, type: 'error' });
         memberCount++;
       }
 
       // Insert modifiers
       for (const modifier of contract.modifiers) {
-        db.run(`
-          INSERT INTO members (contract_id, name, type, signature, visibility, mutability, params, returns, natspec_notice, natspec_dev, example_code)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          contractId,
-          modifier.name,
-          'modifier',
-          modifier.signature,
-          null,
-          null,
-          JSON.stringify(modifier.params),
-          '[]',
-          modifier.natspecNotice || null,
-          modifier.natspecDev || null,
-          null
-        ]);
+        insertMember(db, contractId, { ...modifier, type: 'modifier' });
+        memberCount++;
+      }
+
+      // Insert state variables and constants
+      for (const variable of contract.stateVariables) {
+        insertMember(db, contractId, {
+          name: variable.name,
+          type: 'variable',
+          signature: variable.signature,
+          visibility: variable.visibility,
+          mutability: variable.mutability || null,
+          natspecNotice: variable.natspecNotice,
+          natspecDev: variable.natspecDev,
+          customTags: variable.customTags,
+          startLine: variable.startLine,
+          endLine: variable.endLine,
+          dataType: variable.type,
+          value: variable.value,
+        });
+        memberCount++;
+      }
+
+      // Insert structs (fields stored as params)
+      for (const struct of contract.structs) {
+        insertMember(db, contractId, {
+          name: struct.name,
+          type: 'struct',
+          signature: struct.signature,
+          params: struct.fields,
+          natspecNotice: struct.natspecNotice,
+          natspecDev: struct.natspecDev,
+          customTags: struct.customTags,
+          startLine: struct.startLine,
+          endLine: struct.endLine,
+          storageLayout: struct.storageLayout,
+        });
+        memberCount++;
+      }
+
+      // Insert enums (values stored as params)
+      for (const enumInfo of contract.enums) {
+        insertMember(db, contractId, {
+          name: enumInfo.name,
+          type: 'enum',
+          signature: enumInfo.signature,
+          params: enumInfo.values.map(value => ({ name: value, type: enumInfo.name })),
+          natspecNotice: enumInfo.natspecNotice,
+          natspecDev: enumInfo.natspecDev,
+          customTags: enumInfo.customTags,
+          startLine: enumInfo.startLine,
+          endLine: enumInfo.endLine,
+        });
+        memberCount++;
+      }
+
+      // Insert user-defined value types
+      for (const userType of contract.userTypes) {
+        insertMember(db, contractId, {
+          name: userType.name,
+          type: 'type',
+          signature: userType.signature,
+          natspecNotice: userType.natspecNotice,
+          natspecDev: userType.natspecDev,
+          customTags: userType.customTags,
+          startLine: userType.startLine,
+          endLine: userType.endLine,
+          dataType: userType.underlyingType,
+        });
+        memberCount++;
+      }
+
+      // Insert using-for directives
+      for (const usingFor of contract.usingFor) {
+        insertMember(db, contractId, {
+          name: usingFor.library,
+          type: 'using',
+          signature: usingFor.signature,
+          dataType: usingFor.target,
+          startLine: usingFor.startLine,
+          endLine: usingFor.endLine,
+        });
         memberCount++;
       }
     }
@@ -211,6 +418,253 @@ function insertContracts(db: Database, contracts: ContractInfo[]): void {
   }
 }
 
+/**
+ * Store the resolved calls of a release's functions and modifiers, which
+ * answer callers queries across all of its contracts
+ */
+function insertCallEdges(db: Database, version: string, product: string): void {
+  const edges = resolveCallEdges(db, version, product);
+  db.run('BEGIN TRANSACTION');
+
+  try {
+    for (const { memberId, edge } of edges) {
+      db.run(`
+        INSERT INTO call_edges (member_id, callee_contract, callee_name, callee_signature, kind, line)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        memberId,
+        edge.contract,
+        edge.name,
+        edge.member?.signature ?? null,
+        edge.kind,
+        edge.line ?? null
+      ]);
+    }
+
+    db.run('COMMIT');
+    console.log(`Resolved ${edges.length} call edges`);
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Store changelog entries with the indexed contracts and members they mention
+ */
+function insertChangelog(db: Database, entries: ChangelogEntry[]): void {
+  // Member names of every indexed Contracts contract, across releases
+  const memberNames = new Map<string, Set<string>>();
+  const rows = queryAll<{ contract: string; member: string | null }>(db, `
+    SELECT DISTINCT c.name as contract, m.name as member
+    FROM contracts c
+    LEFT JOIN members m ON m.contract_id = c.id AND m.type != 'using'
+    WHERE c.type != 'file' AND c.product = 'contracts'
+  `);
+  for (const row of rows) {
+    if (!memberNames.has(row.contract)) memberNames.set(row.contract, new Set());
+    if (row.member) memberNames.get(row.contract)!.add(row.member);
+  }
+
+  db.run('BEGIN TRANSACTION');
+
+  try {
+    for (const entry of entries) {
+      const { contracts, members } = linkChangelogEntry(entry, memberNames);
+      db.run(`
+        INSERT INTO changelog (release, release_date, section, content, breaking, contracts, members, pull_requests, source_url)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        entry.release,
+        entry.date || null,
+        entry.section.join(' > ') || null,
+        entry.content,
+        entry.breaking ? 1 : 0,
+        JSON.stringify(contracts),
+        JSON.stringify(members),
+        JSON.stringify(entry.pullRequests),
+        entry.sourceUrl || null,
+      ]);
+    }
+
+    db.run('COMMIT');
+    console.log(`Inserted ${entries.length} changelog entries`);
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Store the full text and imports of every file the given contracts were
+ * parsed from, plus the files those import (re-exports, interfaces without
+ * their own declarations). Paths are repository paths ('contracts/...'),
+ * read from the sources of their variant.
+ */
+async function insertSources(
+  db: Database,
+  version: string,
+  contracts: ContractInfo[],
+  roots: ReleaseSources
+): Promise<void> {
+  const filePath = (variant: ContractVariant, sourcePath: string) =>
+    roots[variant] && path.join(roots[variant]!, path.relative('contracts', sourcePath));
+
+  const files = new Map<string, { variant: ContractVariant; path: string }>();
+  for (const contract of contracts) {
+    if (!contract.sourcePath) continue;
+    const variant = contract.variant || 'standard';
+    files.set(`${variant}:${contract.sourcePath}`, { variant, path: contract.sourcePath });
+  }
+
+  db.run('BEGIN TRANSACTION');
+
+  try {
+    const queue = [...files.values()];
+    for (let file = queue.shift(); file; file = queue.shift()) {
+      const content = await fs.readFile(filePath(file.variant, file.path)!, 'utf-8');
+      const imports = parseImports(content, file.path, file.variant);
+
+      db.run(`
+        INSERT INTO sources (version, variant, path, import_path, imports, content)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [version, file.variant, file.path, toImportPath(file.path, file.variant), JSON.stringify(imports), content]);
+
+      for (const importPath of imports) {
+        const imported = fromImportPath(importPath);
+        const key = imported && `${imported.variant}:${imported.path}`;
+        if (!imported || !key || files.has(key)) continue;
+        const importedFile = filePath(imported.variant, imported.path);
+        if (!importedFile || !await fileExists(importedFile)) continue;
+        files.set(key, imported);
+        queue.push(imported);
+      }
+    }
+
+    db.run('COMMIT');
+    console.log(`Stored ${files.size} source files`);
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Store the full text of every Cairo file of a checkout, with its module path
+ * as import path and the OpenZeppelin items it uses as imports
+ */
+async function insertCairoSources(db: Database, version: string, repoDir: string): Promise<void> {
+  const modules = await findCairoModules(repoDir);
+
+  db.run('BEGIN TRANSACTION');
+
+  try {
+    for (const [sourcePath, modulePath] of modules) {
+      const content = await fs.readFile(path.join(repoDir, sourcePath), 'utf-8');
+      db.run(`
+        INSERT INTO sources (product, version, variant, path, import_path, imports, content)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [
+        'contracts-cairo',
+        version,
+        'standard',
+        sourcePath,
+        modulePath,
+        JSON.stringify(parseCairoImports(content, modulePath)),
+        content,
+      ]);
+    }
+
+    db.run('COMMIT');
+    console.log(`Stored ${modules.size} source files`);
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+interface MemberInsert {
+  name: string;
+  type: string;
+  signature: string;
+  visibility?: string | null;
+  mutability?: string | null;
+  params?: ParamInfo[];
+  returns?: ReturnInfo[];
+  natspecNotice?: string;
+  natspecDev?: string;
+  natspecSource?: string;
+  dataType?: string;
+  value?: string;
+  canonicalSignature?: string;
+  selector?: string;
+  abi?: AbiFragment;
+  modifiers?: ModifierInvocationInfo[];
+  calls?: CallInfo[];
+  emits?: RaiseSite[];
+  reverts?: RaiseSite[];
+  isVirtual?: boolean;
+  override?: string[];
+  customTags?: CustomTags;
+  storageLayout?: StorageLayoutInfo;
+  startLine?: number;
+  endLine?: number;
+  exampleCode?: string;
+}
+
+async function directoryExists(dirPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(dirPath);
+    return stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(filePath);
+    return stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+function insertMember(db: Database, contractId: number, member: MemberInsert): void {
+  db.run(`
+    INSERT INTO members (contract_id, name, type, signature, visibility, mutability, params, returns, natspec_notice, natspec_dev, natspec_source, data_type, value, canonical_signature, selector, abi, modifiers, calls, emits, reverts, is_virtual, override, custom_tags, storage_layout, start_line, end_line, example_code)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    contractId,
+    member.name,
+    member.type,
+    member.signature,
+    member.visibility || null,
+    member.mutability || null,
+    JSON.stringify(member.params || []),
+    JSON.stringify(member.returns || []),
+    member.natspecNotice || null,
+    member.natspecDev || null,
+    member.natspecSource || null,
+    member.dataType || null,
+    member.value || null,
+    member.canonicalSignature || null,
+    member.selector || null,
+    member.abi ? JSON.stringify(member.abi) : null,
+    JSON.stringify(member.modifiers || []),
+    JSON.stringify(member.calls || []),
+    JSON.stringify(member.emits || []),
+    JSON.stringify(member.reverts || []),
+    member.isVirtual ? 1 : 0,
+    member.override ? JSON.stringify(member.override) : null,
+    JSON.stringify(member.customTags || {}),
+    member.storageLayout ? JSON.stringify(member.storageLayout) : null,
+    member.startLine ?? null,
+    member.endLine ?? null,
+    member.exampleCode || null
+  ]);
+}
+
 function queryOne<T>(db: Database, sql: string): T {
   const result = db.exec(sql);
   if (result.length === 0 || result[0].values.length === 0) {
@@ -242,11 +696,13 @@ function queryAll<T>(db: Database, sql: string): T[] {
 
 function printStats(db: Database): void {
   const docsCount = queryOne<{ count: number }>(db, 'SELECT COUNT(*) as count FROM docs');
+  const sectionsCount = queryOne<{ count: number }>(db, 'SELECT COUNT(*) as count FROM doc_sections');
   const contractsCount = queryOne<{ count: number }>(db, 'SELECT COUNT(*) as count FROM contracts');
   const membersCount = queryOne<{ count: number }>(db, 'SELECT COUNT(*) as count FROM members');
+  const changelogCount = queryOne<{ count: number }>(db, 'SELECT COUNT(*) as count FROM changelog');
 
-  const contractsByVersion = queryAll<{ version: string; count: number }>(db, `
-    SELECT version, COUNT(*) as count FROM contracts GROUP BY version
+  const contractsByVersion = queryAll<{ product: string; version: string; count: number }>(db, `
+    SELECT product, version, COUNT(*) as count FROM contracts GROUP BY product, version
   `);
 
   const membersByType = queryAll<{ type: string; count: number }>(db, `
@@ -254,13 +710,14 @@ function printStats(db: Database): void {
   `);
 
   console.log(`\nDatabase Statistics:`);
-  console.log(`  Documentation chunks: ${docsCount.count}`);
+  console.log(`  Documentation chunks: ${docsCount.count} (from ${sectionsCount.count} sections)`);
   console.log(`  Contracts: ${contractsCount.count}`);
   for (const row of contractsByVersion) {
-    console.log(`    - ${row.version}: ${row.count}`);
+    console.log(`    - ${row.product} ${row.version}: ${row.count}`);
   }
   console.log(`  Members: ${membersCount.count}`);
   for (const row of membersByType) {
     console.log(`    - ${row.type}: ${row.count}`);
   }
+  console.log(`  Changelog entries: ${changelogCount.count}`);
 }
@@ -0,0 +1,138 @@
+import type { DocChunk } from '../types.js';
+
+/**
+ * Size of the documentation chunks cut from each section, in estimated tokens
+ */
+export interface ChunkOptions {
+  targetTokens: number; // Blocks are added to a chunk while it stays within this size
+  overlapTokens: number; // Text from the end of the previous chunk repeated at the start of the next
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  targetTokens: 400,
+  overlapTokens: 50,
+};
+
+// Characters per token of English prose and code, for estimating sizes without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut a section into chunks of at most `targetTokens`, each prefixed with
+ * the section's heading path. Chunks break between blocks (paragraphs, lists,
+ * tables, code blocks); a block larger than the target is broken between its
+ * lines, then words, into pieces that leave room for the overlap, except code
+ * blocks, which are never split and make an oversized chunk of their own.
+ * Consecutive chunks share up to `overlapTokens` of text, never taken from a
+ * code block.
+ */
+export function chunkSection(section: DocChunk, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): DocChunk[] {
+  const heading = section.breadcrumb?.join(' > ') || section.title;
+  const target = Math.max(1, options.targetTokens - estimateTokens(`${heading}\n\n`));
+  const pieceTarget = Math.max(1, target - options.overlapTokens);
+
+  const pieces: string[][] = [];
+  let current: string[] = [];
+  for (const block of splitBlocks(section.content).flatMap(block => splitOversized(block, target, pieceTarget))) {
+    if (current.length > 0 && estimateTokens([...current, block].join('\n\n')) > target) {
+      pieces.push(current);
+      const overlap = overlapOf(current, options.overlapTokens);
+      current = overlap && estimateTokens(overlap) + estimateTokens(block) <= target ? [overlap] : [];
+    }
+    current.push(block);
+  }
+  if (current.length > 0) pieces.push(current);
+
+  return pieces.map(blocks => ({ ...section, content: `${heading}\n\n${blocks.join('\n\n')}` }));
+}
+
+/**
+ * Blocks separated by blank lines; fenced code blocks stay whole, also when
+ * quoted or nested in a list item
+ */
+function splitBlocks(content: string): string[] {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (isFence(line)) inFence = !inFence;
+    if (!inFence && !line.trim()) {
+      if (lines.length > 0) blocks.push(lines.join('\n'));
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  if (lines.length > 0) blocks.push(lines.join('\n'));
+
+  return blocks;
+}
+
+// Fence line of a code block, possibly indented or after blockquote markers ('> ```js')
+function isFence(line: string): boolean {
+  return /^\s*(?:>\s*)*```/.test(line);
+}
+
+/**
+ * Blocks holding fenced code, anywhere in the block, are never split
+ */
+function isCodeBlock(block: string): boolean {
+  return block.split('\n').some(isFence);
+}
+
+/**
+ * Break a text block larger than `target` between lines, and lines larger
+ * than `pieceTarget` between words, into pieces of at most `pieceTarget`
+ */
+function splitOversized(block: string, target: number, pieceTarget: number): string[] {
+  if (isCodeBlock(block) || estimateTokens(block) <= target) return [block];
+
+  const parts: string[] = [];
+  let current = '';
+  const add = (unit: string, separator: string) => {
+    const joined = current ? `${current}${separator}${unit}` : unit;
+    if (current && estimateTokens(joined) > pieceTarget) {
+      parts.push(current);
+      current = unit;
+    } else {
+      current = joined;
+    }
+  };
+
+  for (const line of block.split('\n')) {
+    if (estimateTokens(line) <= pieceTarget) {
+      add(line, '\n');
+    } else {
+      line.split(/\s+/).forEach((word, index) => add(word, index === 0 ? '\n' : ' '));
+    }
+  }
+  if (current) parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Trailing lines (or words) of a chunk's last block, within `limit` tokens
+ */
+function overlapOf(blocks: string[], limit: number): string | undefined {
+  const last = blocks[blocks.length - 1];
+  if (limit <= 0 || isCodeBlock(last)) return undefined;
+
+  const lines = last.split('\n');
+  const kept: string[] = [];
+  while (lines.length > 0 && estimateTokens([lines[lines.length - 1], ...kept].join('\n')) <= limit) {
+    kept.unshift(lines.pop()!);
+  }
+  if (kept.length > 0) return kept.join('\n');
+
+  const words = last.split(/\s+/);
+  const tail: string[] = [];
+  while (words.length > 0 && estimateTokens([words[words.length - 1], ...tail].join(' ')) <= limit) {
+    tail.unshift(words.pop()!);
+  }
+  return tail.length > 0 ? tail.join(' ') : undefined;
+}
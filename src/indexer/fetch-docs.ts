@@ -1,20 +1,19 @@
 import { simpleGit, SimpleGit } from 'simple-git';
 import fs from 'fs/promises';
 import path from 'path';
+import { PRODUCT_INFO, ASCIIDOC_PAGES, type Release, type ReleaseSources } from './releases.js';
+import type { ContractVariant } from '../types.js';
 
 const DOCS_REPO = 'https://github.com/OpenZeppelin/docs.git';
-const CONTRACTS_REPO = 'https://github.com/OpenZeppelin/openzeppelin-contracts.git';
-
-const V5_TAG = 'v5.3.0';
-const V4_TAG = 'v4.9.6';
 
 export interface FetchOptions {
   dataDir: string;
+  releases: Release[];
   force?: boolean;
 }
 
 export async function fetchDocs(options: FetchOptions): Promise<void> {
-  const { dataDir, force = false } = options;
+  const { dataDir, releases, force = false } = options;
   const reposDir = path.join(dataDir, 'repos');
 
   // Create repos directory if it doesn't exist
@@ -26,13 +25,15 @@ export async function fetchDocs(options: FetchOptions): Promise<void> {
   const docsPath = path.join(reposDir, 'docs');
   await cloneRepo(git, DOCS_REPO, docsPath, undefined, force);
 
-  // Clone contracts v5
-  const contractsV5Path = path.join(reposDir, 'contracts-v5');
-  await cloneRepo(git, CONTRACTS_REPO, contractsV5Path, V5_TAG, force);
-
-  // Clone contracts v4
-  const contractsV4Path = path.join(reposDir, 'contracts-v4');
-  await cloneRepo(git, CONTRACTS_REPO, contractsV4Path, V4_TAG, force);
+  // Clone every release of the manifest from the product's repositories (for
+  // Contracts, the upgradeable variant at the same tag); documentation-only
+  // products have none
+  for (const release of releases) {
+    const paths = getReleasePaths(dataDir, release);
+    for (const [variant, repoUrl] of Object.entries(PRODUCT_INFO[release.product].repositories)) {
+      await cloneRepo(git, repoUrl, paths[variant as ContractVariant], release.tag, force);
+    }
+  }
 
   console.log('All repositories fetched successfully');
 }
@@ -80,7 +81,36 @@ export function getReposPaths(dataDir: string) {
   const reposDir = path.join(dataDir, 'repos');
   return {
     docs: path.join(reposDir, 'docs'),
-    contractsV5: path.join(reposDir, 'contracts-v5'),
-    contractsV4: path.join(reposDir, 'contracts-v4'),
+  };
+}
+
+/**
+ * Checkouts of a release, named after the product and tag (e.g.
+ * 'contracts-v5.1.0', 'contracts-cairo-v1.0.0')
+ */
+export function getReleasePaths(dataDir: string, release: Release): Record<ContractVariant, string> {
+  const reposDir = path.join(dataDir, 'repos');
+  return {
+    standard: path.join(reposDir, `${release.product}-${release.tag}`),
+    upgradeable: path.join(reposDir, `${release.product}-upgradeable-${release.tag}`),
+  };
+}
+
+/**
+ * Sources of a release cloned by fetchDocs: the contracts/ directories of
+ * Solidity checkouts, the whole checkout for Cairo, and the AsciiDoc pages
+ * releases published before the docs moved to MDX keep under docs/
+ */
+export function getReleaseSources(dataDir: string, release: Release): ReleaseSources {
+  const paths = getReleasePaths(dataDir, release);
+  const { language, repositories } = PRODUCT_INFO[release.product];
+  if (language === 'cairo') {
+    return { standard: paths.standard, docs: path.join(paths.standard, ASCIIDOC_PAGES) };
+  }
+  return {
+    standard: repositories.standard && path.join(paths.standard, 'contracts'),
+    upgradeable: repositories.upgradeable && path.join(paths.upgradeable, 'contracts'),
+    changelog: repositories.standard && path.join(paths.standard, 'CHANGELOG.md'),
+    docs: repositories.standard && path.join(paths.standard, ASCIIDOC_PAGES),
   };
 }
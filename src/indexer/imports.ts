@@ -0,0 +1,56 @@
+import path from 'path';
+import { parse, visit } from '@solidity-parser/parser';
+import type { ImportDirective } from '@solidity-parser/parser/dist/src/ast-types.js';
+import type { ContractVariant } from '../types.js';
+
+const PACKAGES: Record<ContractVariant, string> = {
+  standard: '@openzeppelin/contracts',
+  upgradeable: '@openzeppelin/contracts-upgradeable',
+};
+
+/**
+ * Path a file is imported by from npm: 'contracts/token/ERC20/ERC20.sol' ->
+ * '@openzeppelin/contracts/token/ERC20/ERC20.sol'
+ */
+export function toImportPath(sourcePath: string, variant: ContractVariant): string {
+  return `${PACKAGES[variant]}/${sourcePath.replace(/^contracts\//, '')}`;
+}
+
+/**
+ * Inverse of toImportPath; undefined for paths outside the OZ packages
+ */
+export function fromImportPath(importPath: string): { variant: ContractVariant; path: string } | undefined {
+  // The upgradeable package name starts with the standard one, so test it first
+  for (const variant of ['upgradeable', 'standard'] as const) {
+    const prefix = `${PACKAGES[variant]}/`;
+    if (importPath.startsWith(prefix)) {
+      return { variant, path: `contracts/${importPath.slice(prefix.length)}` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Import paths of a source file, resolved to package import paths. Relative
+ * imports stay in the file's own package; the upgradeable package imports
+ * the standard one through '@openzeppelin/contracts/...'.
+ */
+export function parseImports(source: string, sourcePath: string, variant: ContractVariant): string[] {
+  let ast;
+  try {
+    ast = parse(source, { tolerant: true });
+  } catch {
+    return [];
+  }
+
+  const imports: string[] = [];
+  visit(ast, {
+    ImportDirective: (node: ImportDirective) => {
+      const resolved = node.path.startsWith('.')
+        ? toImportPath(path.posix.normalize(path.posix.join(path.posix.dirname(sourcePath), node.path)), variant)
+        : node.path;
+      if (!imports.includes(resolved)) imports.push(resolved);
+    },
+  });
+  return imports;
+}
@@ -0,0 +1,184 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { toRelease, compareReleases, sortReleases, TAG_PATTERN, ASCIIDOC_PAGES, type Product, type Release, type ReleaseSources } from './releases.js';
+import type { ContractVariant } from '../types.js';
+
+/**
+ * A release read from local directories instead of fetched checkouts
+ */
+export interface LocalRelease {
+  release: Release;
+  sources: ReleaseSources;
+}
+
+interface LocalSource {
+  product: Product;
+  root: string;
+  contractsDir: string;
+  variant: ContractVariant;
+  release: string;
+}
+
+/**
+ * Resolve local source roots into releases, without network access. A root
+ * is a checkout of openzeppelin-contracts(-upgradeable) (e.g.
+ * 'lib/openzeppelin-contracts'), an installed npm package (e.g.
+ * 'node_modules/@openzeppelin/contracts') or a checkout of cairo-contracts
+ * (found by its Scarb.toml). The release is the version tag at the
+ * checkout's HEAD, or else the version of its package.json (Scarb.toml for
+ * Cairo); roots of both variants with the same release are indexed together.
+ * A standard root without upgradeable counterpart picks up a sibling
+ * '<root>-upgradeable' directory of the same release. Checkouts contribute
+ * their AsciiDoc pages, if any.
+ */
+export async function resolveLocalSources(roots: string[]): Promise<LocalRelease[]> {
+  const sources: LocalSource[] = [];
+  const add = (source: LocalSource) => {
+    const duplicate = sources.find(s =>
+      s.product === source.product && s.variant === source.variant && s.release === source.release
+    );
+    if (duplicate) {
+      console.warn(`Warning: ${source.root} is ${source.variant} ${source.release} like ${duplicate.root}, skipping it`);
+      return;
+    }
+    sources.push(source);
+  };
+
+  for (const root of roots) {
+    add(await resolveLocalSource(path.resolve(root)));
+  }
+
+  for (const source of sources.filter(s => s.variant === 'standard')) {
+    if (source.product !== 'contracts') continue;
+    if (sources.some(s => s.variant === 'upgradeable' && s.release === source.release)) continue;
+
+    const sibling = `${source.root}-upgradeable`;
+    if (!await isDirectory(sibling)) continue;
+    const upgradeable = await resolveLocalSource(sibling);
+    if (upgradeable.variant === 'upgradeable' && upgradeable.release === source.release) {
+      add(upgradeable);
+    }
+  }
+
+  const releases = new Map<string, LocalRelease>();
+  for (const source of sources) {
+    const key = `${source.product}@${source.release}`;
+    if (!releases.has(key)) {
+      releases.set(key, {
+        release: toRelease({ product: source.product, tag: `v${source.release}` }),
+        sources: {},
+      });
+    }
+    const { sources: releaseSources } = releases.get(key)!;
+    releaseSources[source.variant] = source.contractsDir;
+    if (source.product === 'contracts' && source.variant === 'standard') {
+      releaseSources.changelog = path.join(source.root, 'CHANGELOG.md');
+    }
+    if (source.variant === 'standard') {
+      releaseSources.docs = path.join(source.root, ASCIIDOC_PAGES);
+    }
+  }
+
+  const resolved = [...releases.values()];
+  const order = sortReleases(resolved.map(r => r.release));
+  return resolved.sort((a, b) => order.indexOf(a.release) - order.indexOf(b.release));
+}
+
+async function resolveLocalSource(root: string): Promise<LocalSource> {
+  if (!await isDirectory(root)) {
+    throw new Error(`Source root ${root} is not a directory`);
+  }
+
+  const scarb = await readText(path.join(root, 'Scarb.toml'));
+  if (scarb !== undefined) {
+    // '[workspace.package]' (1.x) or '[package]' (0.x) version
+    const version = (await gitRelease(root))?.replace(/^v/, '') ??
+      scarb.match(/^\[(?:workspace\.)?package\][^[]*?^version\s*=\s*"([^"]+)"/m)?.[1];
+    if (!version || !TAG_PATTERN.test(version)) {
+      throw new Error(`Cannot tell the release of ${root}: no version tag at its git HEAD and no version in its Scarb.toml`);
+    }
+    console.log(`Using ${root} as contracts-cairo ${version}`);
+    return { product: 'contracts-cairo', root, contractsDir: root, variant: 'standard', release: version };
+  }
+
+  // Checkouts keep the sources (and the published package.json) under contracts/
+  const checkout = await isDirectory(path.join(root, 'contracts'));
+  const contractsDir = checkout ? path.join(root, 'contracts') : root;
+  const pkg = await readPackageJson(contractsDir) ?? await readPackageJson(root);
+
+  const variant: ContractVariant = (pkg?.name ?? path.basename(root)).includes('upgradeable')
+    ? 'upgradeable'
+    : 'standard';
+
+  const found = await readSourceRelease(root);
+  if (!found) {
+    throw new Error(
+      `Cannot tell the release of ${root}: no version tag at its git HEAD and no version in its package.json`
+    );
+  }
+
+  console.log(`Using ${root} as ${variant} ${found.release}`);
+  return { product: 'contracts', root, contractsDir, variant, release: found.release };
+}
+
+/**
+ * Release of a checkout or npm package: the version tag at the checkout's
+ * HEAD (`tag` is set), or else the version of its package.json
+ */
+export async function readSourceRelease(root: string): Promise<{ release: string; tag?: string } | undefined> {
+  const tag = await gitRelease(root);
+  if (tag) return { release: tag.replace(/^v/, ''), tag };
+
+  const pkg = await readPackageJson(path.join(root, 'contracts')) ?? await readPackageJson(root);
+  return pkg?.version && TAG_PATTERN.test(pkg.version) ? { release: pkg.version } : undefined;
+}
+
+/**
+ * Newest version tag pointing at HEAD, for roots that are git checkouts
+ * themselves (not directories inside another repository)
+ */
+async function gitRelease(root: string): Promise<string | undefined> {
+  try {
+    await fs.stat(path.join(root, '.git'));
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const tags = (await simpleGit(root).raw(['tag', '--points-at', 'HEAD']))
+      .split('\n')
+      .map(tag => tag.trim())
+      .filter(tag => TAG_PATTERN.test(tag))
+      .sort((a, b) => compareReleases({ release: a.replace(/^v/, '') }, { release: b.replace(/^v/, '') }));
+    return tags.pop();
+  } catch (error) {
+    console.warn(`Warning: cannot read the git tags of ${root}:`, error);
+    return undefined;
+  }
+}
+
+async function readPackageJson(dir: string): Promise<{ name?: string; version?: string } | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(dirPath);
+    return stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
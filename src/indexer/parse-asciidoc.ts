@@ -0,0 +1,269 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { glob } from 'glob';
+import { PRODUCT_INFO, type Product } from './releases.js';
+import { detectCategory, detectModule, detectSourceType } from './parse-mdx.js';
+import type { DocChunk } from '../types.js';
+
+const SECTION_HEADING = /^(={2,3})\s+(.+?)\s*$/;
+const SUBSECTION_HEADING = /^(={4,6})\s+(.+?)\s*$/;
+const ADMONITION = /^\[(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]$/;
+
+/**
+ * Where a page is published: AsciiDoc pages of a release live in its
+ * checkout's docs/modules/<module>/pages/ (Antora), served at
+ * docs.openzeppelin.com/<product docs>/<series>/
+ */
+export interface AsciidocSite {
+  product: Product;
+  version: string; // Release the chunks are stored under, e.g. '3.4.2'
+  series: string; // Path segment of the published docs, e.g. '3.x'
+}
+
+interface ParsedSection {
+  title: string;
+  breadcrumb: string[];
+  content: string;
+}
+
+/**
+ * Parse the AsciiDoc pages of an Antora module (e.g. a checkout's
+ * docs/modules/ROOT/pages) into the same chunks as parseMdxFiles
+ */
+export async function parseAsciidocFiles(pagesDir: string, site: AsciidocSite): Promise<DocChunk[]> {
+  const chunks: DocChunk[] = [];
+
+  const files = await glob('**/*.adoc', { cwd: pagesDir });
+  console.log(`Found ${files.length} AsciiDoc files in ${pagesDir}`);
+
+  for (const file of files.sort()) {
+    try {
+      chunks.push(...await parseAsciidocFile(path.join(pagesDir, file), site, file));
+    } catch (error) {
+      console.warn(`Warning: Failed to parse ${file}:`, error);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a page on its `==` and `===` sections like parseMdxFile; `pagePath`
+ * is its path below the module's pages/ directory, e.g. 'erc20.adoc'
+ */
+export async function parseAsciidocFile(
+  filePath: string,
+  site: AsciidocSite,
+  pagePath: string = path.basename(filePath)
+): Promise<DocChunk[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const category = detectCategory(filePath);
+  const module = detectModule(filePath);
+  const sourceUrl = pageUrl(site, 'ROOT', pagePath);
+
+  const { title, attributes, body } = extractHeader(content);
+  const text = convertBody(body, attributes, site, sourceUrl);
+
+  return extractSections(text, title ?? module).map(section => ({
+    title: section.title,
+    breadcrumb: section.breadcrumb,
+    content: section.content,
+    category,
+    module,
+    product: site.product,
+    version: site.version,
+    sourceType: detectSourceType(filePath),
+    sourceUrl,
+    filePath,
+  }));
+}
+
+/**
+ * Document title (`= Title`) and attribute entries (`:name: value`) of the
+ * header, which ends at the first blank line
+ */
+function extractHeader(content: string): { title?: string; attributes: Record<string, string>; body: string } {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const attributes: Record<string, string> = {};
+  let title: string | undefined;
+  let index = 0;
+
+  while (index < lines.length && (lines[index].startsWith('//') || !lines[index].trim())) index++;
+  const heading = lines[index]?.match(/^=\s+(.+?)\s*$/);
+  if (heading) {
+    title = heading[1];
+    index++;
+  }
+  for (; index < lines.length && lines[index].trim(); index++) {
+    const attribute = lines[index].match(/^:([\w-]+!?):\s*(.*)$/);
+    if (attribute) {
+      attributes[attribute[1]] = attribute[2];
+    } else if (!lines[index].startsWith('//')) {
+      break;
+    }
+  }
+
+  return { title, attributes, body: lines.slice(index).join('\n') };
+}
+
+/**
+ * Turn AsciiDoc blocks into the markdown the MDX chunks use: source and
+ * literal blocks become fenced code, admonitions keep their label, lists use
+ * markdown bullets, links and cross references become markdown links.
+ * Comments, anchors, block attributes and includes are dropped.
+ */
+function convertBody(body: string, attributes: Record<string, string>, site: AsciidocSite, baseUrl: string): string {
+  const output: string[] = [];
+  const lines = body.split('\n');
+  let language: string | undefined;
+  let admonition: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Comment blocks
+    if (line.trim() === '////') {
+      while (++i < lines.length && lines[i].trim() !== '////');
+      continue;
+    }
+
+    // Source ('[source,solidity]' + '----') and literal ('....') blocks
+    const source = line.match(/^\[source(?:,\s*([\w+-]+))?[^\]]*\]$/);
+    if (source) {
+      language = source[1] ?? '';
+      continue;
+    }
+    if (line.trim() === '----' || line.trim() === '....') {
+      const delimiter = line.trim();
+      const code: string[] = [];
+      while (++i < lines.length && lines[i].trim() !== delimiter) {
+        // Drop callout markers ('// <1>')
+        code.push(lines[i].replace(/\s*(?:\/\/|#)?\s*<\d+>$/, ''));
+      }
+      output.push('', `\`\`\`${language ?? ''}`, ...code, '```', '');
+      language = undefined;
+      continue;
+    }
+    language = undefined;
+
+    if (line.startsWith('//') || line.startsWith('include::') || /^\[\[[^\]]*\]\]$/.test(line.trim())) {
+      continue;
+    }
+
+    const block = line.match(ADMONITION);
+    if (block) {
+      admonition = block[1];
+      continue;
+    }
+    if (/^\[.*\]$/.test(line.trim()) || /^(====|\*\*\*\*|--|\|===)$/.test(line.trim())) {
+      // Block attributes and delimiters of example, sidebar and open blocks
+      continue;
+    }
+    if (/^:[\w-]+!?:/.test(line)) {
+      const attribute = line.match(/^:([\w-]+!?):\s*(.*)$/)!;
+      attributes[attribute[1]] = attribute[2];
+      continue;
+    }
+
+    let text = convertInline(line, attributes, site, baseUrl);
+
+    const subsection = text.match(SUBSECTION_HEADING);
+    if (subsection) {
+      output.push(`${'#'.repeat(subsection[1].length)} ${subsection[2]}`);
+      continue;
+    }
+    if (/^\.[^.\s]/.test(text)) {
+      // Block title
+      output.push(`**${text.slice(1)}**`);
+      continue;
+    }
+
+    // Lists: '* item', '** nested', '. ordered', '<1> callout', 'term:: definition'
+    text = text.replace(/^<(\d+)>\s+/, '$1. ');
+    const bullet = text.match(/^(\*{1,5}|-)\s+(.*)$/);
+    const ordered = text.match(/^(\.{1,5})\s+(.*)$/);
+    if (bullet) {
+      const depth = bullet[1] === '-' ? 0 : bullet[1].length - 1;
+      text = `${'  '.repeat(depth)}- ${bullet[2]}`;
+    } else if (ordered) {
+      text = `${'  '.repeat(ordered[1].length - 1)}1. ${ordered[2]}`;
+    } else {
+      text = text.replace(/^(.+?)::\s+(.*)$/, '**$1**: $2');
+    }
+
+    const label = text.match(/^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+(.*)$/);
+    if (label) {
+      text = `**${label[1]}:** ${label[2]}`;
+    } else if (admonition && text.trim()) {
+      text = `**${admonition}:** ${text}`;
+      admonition = undefined;
+    }
+
+    output.push(text.replace(/\s\+$/, ''));
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Attribute references, links, cross references and passthroughs of a line
+ */
+function convertInline(line: string, attributes: Record<string, string>, site: AsciidocSite, baseUrl: string): string {
+  return line
+    .replace(/\{([\w-]+)\}/g, (match, name: string) => attributes[name] ?? match)
+    // 'xref:api:token/ERC20.adoc#ERC20[`ERC20`]', 'xref:erc20.adoc[ERC20 guide]'
+    .replace(/xref:(?:([\w-]+):)?([^\s[]+?)(?:\.adoc)?(#[^\s[]*)?\[([^\]]*)\]/g,
+      (_, module: string | undefined, page: string, anchor: string | undefined, text: string) => {
+        const url = pageUrl(site, module ?? 'ROOT', `${page}.adoc`) + (anchor ?? '');
+        return `[${text || page}](${url})`;
+      })
+    // '<<constructing-an-erc20-token-contract,Constructing>>'
+    .replace(/<<([\w-]+)(?:,\s*([^>]+))?>>/g, (_, anchor: string, text?: string) => `[${text ?? anchor}](${baseUrl}#${anchor})`)
+    // 'link:https://...[text]', 'https://...[text]'
+    .replace(/(?:link:)?(https?:\/\/[^\s[]+)\[([^\]]*)\]/g, (_, url: string, text: string) => `[${text || url}](${url})`)
+    .replace(/pass:\w*\[([^\]]*)\]/g, '$1')
+    .replace(/\+\+\+(.*?)\+\+\+/g, '$1');
+}
+
+/**
+ * Split converted text on `==` and `===` headings (h2 and h3). Content
+ * before the first one is a section of its own, titled after the page.
+ */
+function extractSections(text: string, pageTitle: string): ParsedSection[] {
+  const sections: ParsedSection[] = [];
+  let current: ParsedSection = { title: pageTitle, breadcrumb: [pageTitle], content: '' };
+  let parent = current; // Latest h2 (or the page), for the breadcrumb of h3 sections
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('```')) inFence = !inFence;
+    const heading = !inFence && line.match(SECTION_HEADING);
+    if (heading) {
+      sections.push(current);
+      const level = heading[1].length;
+      current = {
+        title: heading[2],
+        breadcrumb: [...(level === 2 ? sections[0] : parent).breadcrumb, heading[2]],
+        content: '',
+      };
+      if (level === 2) parent = current;
+    } else {
+      current.content += `${line}\n`;
+    }
+  }
+  sections.push(current);
+
+  return sections
+    .map(section => ({ ...section, content: section.content.replace(/\n{3,}/g, '\n\n').trim() }))
+    .filter(section => section.content);
+}
+
+/**
+ * Published URL of a page of an Antora module: ROOT pages at the version
+ * root, other modules (e.g. 'api') below their name
+ */
+function pageUrl(site: AsciidocSite, module: string, pagePath: string): string {
+  const page = pagePath.replace(/\.adoc$/, '').replace(/(^|\/)index$/, '');
+  const segments = [PRODUCT_INFO[site.product].docs, site.series, module === 'ROOT' ? '' : module, page];
+  return `https://docs.openzeppelin.com/${segments.filter(Boolean).join('/')}`;
+}
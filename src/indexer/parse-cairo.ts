@@ -0,0 +1,735 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { glob } from 'glob';
+import type {
+  ContractInfo,
+  FunctionInfo,
+  EventInfo,
+  ErrorInfo,
+  StateVariableInfo,
+  StructInfo,
+  EnumInfo,
+  ParamInfo,
+} from '../types.js';
+
+// Category mapping from file paths, e.g. 'packages/token/src/erc20/erc20.cairo'
+const CATEGORY_PATTERNS: Record<string, RegExp> = {
+  access: /\/access\//,
+  account: /\/account\//,
+  finance: /\/finance\//,
+  governance: /\/governance\//,
+  introspection: /\/introspection\//,
+  presets: /\/presets\//,
+  security: /\/security\//,
+  token: /\/token\//,
+  upgrades: /\/upgrades\//,
+  utils: /\/utils\//,
+};
+
+const SOURCE_REPOSITORY = 'https://github.com/OpenZeppelin/cairo-contracts';
+
+const ITEM_KEYWORD = /^(mod|trait|impl|fn|struct|enum|const|type|use)\b/;
+
+/**
+ * A declaration of a Cairo module body: offsets index both the source and its
+ * masked copy, `body` spans the inside of its braces
+ */
+interface Item {
+  keyword: string;
+  name: string;
+  attributes: string[]; // Inside of each #[...], e.g. 'starknet::component', 'embeddable_as(ERC20Impl)'
+  isPub: boolean;
+  header: string; // From the keyword to the body or ';', whitespace collapsed
+  body?: { start: number; end: number };
+  start: number; // Keyword offset
+  end: number;
+}
+
+/**
+ * A Cairo source with copies of the same length: `masked` without comments
+ * and string literals, so braces and semicolons can be matched on it,
+ * `uncommented` without comments
+ */
+interface CairoFile {
+  source: string;
+  masked: string;
+  uncommented: string;
+  lines: string[];
+  lineStarts: number[];
+  sourcePath: string; // Repository-relative
+  modulePath: string; // 'openzeppelin_token::erc20::erc20'
+  category: string;
+  version: string;
+  sourceUrl?: string;
+}
+
+/**
+ * Cairo files of a cairo-contracts checkout by repository path, with their
+ * module path: the src/ files of every Scarb package (the repository root up
+ * to 0.x, packages/* from 1.x) except test utilities, mocks and tests
+ */
+export async function findCairoModules(repoDir: string): Promise<Map<string, string>> {
+  const modules = new Map<string, string>();
+
+  const manifests = await glob('{Scarb.toml,packages/*/Scarb.toml}', { cwd: repoDir });
+  for (const manifest of manifests.sort()) {
+    const packageDir = path.dirname(manifest);
+    const name = (await fs.readFile(path.join(repoDir, manifest), 'utf-8'))
+      .match(/^\[package\][^[]*?^name\s*=\s*"([^"]+)"/m)?.[1];
+    if (!name || name.includes('test')) continue;
+
+    const files = await glob('src/**/*.cairo', { cwd: path.join(repoDir, packageDir) });
+
+    for (const file of files.sort()) {
+      const sourcePath = path.join(packageDir, file).split(path.sep).join('/');
+      // Skip mocks and test files
+      if (/\/(tests?|mocks)(\/|\.cairo$)/.test(sourcePath) || /\/test_[^/]*\.cairo$/.test(sourcePath)) {
+        continue;
+      }
+      // 'src/lib.cairo' is the crate root, 'src/erc20.cairo' and 'src/erc20/' module 'erc20'
+      const segments = file.replace(/^src\//, '').replace(/\.cairo$/, '').split('/').filter(part => part !== 'lib');
+      modules.set(sourcePath, [name, ...segments].join('::'));
+    }
+  }
+
+  return modules;
+}
+
+/**
+ * Parse the Cairo files of a cairo-contracts checkout (see findCairoModules).
+ * With `tag`, contracts link to the file on GitHub.
+ */
+export async function parseCairoFiles(repoDir: string, version: string, tag?: string): Promise<ContractInfo[]> {
+  const contracts: ContractInfo[] = [];
+  const modules = await findCairoModules(repoDir);
+  console.log(`Found ${modules.size} Cairo files in ${repoDir}`);
+
+  for (const [sourcePath, modulePath] of modules) {
+    try {
+      const source = await fs.readFile(path.join(repoDir, sourcePath), 'utf-8');
+      contracts.push(...parseCairoSource(source, sourcePath, modulePath, version, tag));
+    } catch (error) {
+      console.warn(`Warning: Failed to parse ${sourcePath}:`, error);
+    }
+  }
+
+  return contracts;
+}
+
+/**
+ * Paths of the OpenZeppelin items a Cairo module uses
+ * ('openzeppelin_token::erc20::ERC20Component'), `crate::` paths resolved
+ * against the module's package
+ */
+export function parseCairoImports(source: string, modulePath: string): string[] {
+  const crate = modulePath.split('::')[0];
+  const imports: string[] = [];
+  const masked = maskSource(source, false);
+
+  for (const match of masked.matchAll(/\buse\s+([^;]+);/g)) {
+    for (const usePath of expandUse(match[1].replace(/\s+/g, ' ').replace(/\s*(::|\{|\})\s*/g, '$1').trim())) {
+      const resolved = usePath.replace(/^crate::/, `${crate}::`).replace(/::self$/, '');
+      if (/^openzeppelin\w*::/.test(resolved) && !imports.includes(resolved)) {
+        imports.push(resolved);
+      }
+    }
+  }
+  return imports;
+}
+
+/**
+ * 'a::{b, c::{d, e}}' -> ['a::b', 'a::c::d', 'a::c::e'], aliases dropped
+ */
+function expandUse(tree: string): string[] {
+  const open = tree.indexOf('{');
+  if (open < 0) return [tree.replace(/\s+as\s+\w+$/, '')];
+  const prefix = tree.slice(0, open);
+  const inner = tree.slice(open + 1, matchingBracket(tree, open));
+  return splitTopLevel(inner).flatMap(part => expandUse(part).map(item => `${prefix}${item}`));
+}
+
+/**
+ * Parse the source of one Cairo module into contracts: components
+ * (`#[starknet::component]`), contracts (`#[starknet::contract]`) and traits
+ * (interfaces) become their own entries; free functions, constants and types
+ * are collected into a 'file' entry named after the module path.
+ */
+export function parseCairoSource(
+  source: string,
+  sourcePath: string,
+  modulePath: string,
+  version: string,
+  tag?: string
+): ContractInfo[] {
+  const file: CairoFile = {
+    source,
+    masked: maskSource(source, true),
+    uncommented: maskSource(source, false),
+    lines: source.split('\n'),
+    lineStarts: lineStarts(source),
+    sourcePath,
+    modulePath,
+    category: detectCategory(sourcePath),
+    version,
+    sourceUrl: tag ? `${SOURCE_REPOSITORY}/blob/${tag}/${sourcePath}` : undefined,
+  };
+
+  return parseModule(file, scanItems(file, 0, source.length), modulePath);
+}
+
+function parseModule(file: CairoFile, items: Item[], modulePath: string): ContractInfo[] {
+  const contracts: ContractInfo[] = [];
+  const container = newContract(file, modulePath, 'file', modulePath);
+
+  for (const item of items) {
+    if (isTestOnly(item)) continue;
+
+    if (item.keyword === 'mod' && item.body) {
+      if (item.attributes.includes('starknet::component') || item.attributes.includes('starknet::contract')) {
+        contracts.push(...parseComponent(file, item, modulePath));
+      } else if (item.name === 'Errors') {
+        container.errors.push(...parseErrors(file, item));
+      } else {
+        contracts.push(...parseModule(file, scanItems(file, item.body.start, item.body.end), `${modulePath}::${item.name}`));
+      }
+    } else if (item.keyword === 'trait' && item.body) {
+      contracts.push(parseTrait(file, item, modulePath));
+    } else {
+      addDeclaration(file, container, item, item.isPub ? 'internal' : 'private');
+    }
+  }
+
+  const declarations = container.functions.length + container.errors.length + container.stateVariables.length +
+    container.structs.length + container.enums.length + container.userTypes.length + container.events.length;
+  if (declarations > 0) {
+    contracts.push(container);
+  }
+  return contracts;
+}
+
+/**
+ * A component or contract module. Functions of embeddable impls and
+ * `#[external(v0)]` functions are external, those of other pub impls
+ * internal; interfaces the impls implement and components a contract embeds
+ * make up its inheritance.
+ */
+function parseComponent(file: CairoFile, item: Item, modulePath: string): ContractInfo[] {
+  const isComponent = item.attributes.includes('starknet::component');
+  const contract = newContract(file, item.name, isComponent ? 'component' : 'contract', `${modulePath}::${item.name}`, item);
+  const nested: ContractInfo[] = [];
+  const items = scanItems(file, item.body!.start, item.body!.end);
+
+  // Events are the variants of the #[event] enum
+  const eventNames = new Set<string>();
+  for (const enumItem of items.filter(i => i.keyword === 'enum' && i.attributes.includes('event') && i.body)) {
+    for (const variant of splitTopLevel(file.uncommented.slice(enumItem.body!.start, enumItem.body!.end))) {
+      const type = variant.replace(/#\[[^\]]*\]/g, '').split(':')[1]?.trim();
+      if (type) eventNames.add(lastSegment(type));
+    }
+  }
+
+  for (const member of items) {
+    if (isTestOnly(member)) continue;
+
+    if (member.keyword === 'impl' && member.body) {
+      const embeddable = member.attributes.some(a => a.startsWith('embeddable_as') || a.startsWith('abi(embed_v0)'));
+      const perItem = member.attributes.includes('abi(per_item)');
+      const implemented = member.header.match(/\bof\s+([\w:]+)/)?.[1];
+      if (embeddable && implemented) {
+        addBase(contract, lastSegment(implemented));
+      }
+
+      for (const fn of scanItems(file, member.body.start, member.body.end)) {
+        if (fn.keyword !== 'fn') continue;
+        const external = embeddable || (perItem && fn.attributes.some(a => a.startsWith('external')));
+        const visibility = external ? 'external' : member.isPub ? 'internal' : 'private';
+        const func = parseFunction(file, fn, visibility);
+        // Mixin impls repeat the functions of the impls they combine
+        if (!contract.functions.some(f => f.signature === func.signature)) {
+          contract.functions.push(func);
+        }
+      }
+    } else if (member.keyword === 'fn') {
+      const external = member.attributes.some(a => a.startsWith('external') || a === 'constructor' || a === 'l1_handler');
+      contract.functions.push(parseFunction(file, member, external ? 'external' : member.isPub ? 'internal' : 'private'));
+    } else if (member.keyword === 'struct' && member.name === 'Storage' && member.attributes.includes('storage')) {
+      for (const field of parseFields(file, member)) {
+        contract.stateVariables.push({
+          name: field.name,
+          signature: `${field.name}: ${field.type}`,
+          type: field.type,
+          visibility: 'internal',
+          mutability: '',
+          startLine: lineOf(file, member.start),
+          endLine: lineOf(file, member.end),
+        });
+      }
+    } else if (member.keyword === 'struct' && (eventNames.has(member.name) || isEventStruct(member))) {
+      contract.events.push(parseEvent(file, member));
+    } else if (member.keyword === 'enum' && member.attributes.includes('event')) {
+      continue;
+    } else if (member.keyword === 'mod' && member.name === 'Errors' && member.body) {
+      contract.errors.push(...parseErrors(file, member));
+    } else if (member.keyword === 'trait' && member.body) {
+      const trait = parseTrait(file, member, `${modulePath}::${item.name}`);
+      nested.push(trait);
+    } else if (member.keyword === 'macro' && member.name === 'component') {
+      const component = member.header.match(/path\s*:\s*([\w:]+)/)?.[1];
+      if (component) addBase(contract, lastSegment(component));
+    } else {
+      addDeclaration(file, contract, member, member.isPub ? 'internal' : 'private');
+    }
+  }
+
+  return [contract, ...nested];
+}
+
+/**
+ * A trait: `#[starknet::interface]` traits declare a contract's external
+ * functions, others (e.g. ERC20HooksTrait) are implemented by the user
+ */
+function parseTrait(file: CairoFile, item: Item, modulePath: string): ContractInfo {
+  const trait = newContract(file, item.name, 'interface', `${modulePath}::${item.name}`, item);
+  const visibility = item.attributes.includes('starknet::interface') ? 'external' : 'internal';
+
+  for (const member of scanItems(file, item.body!.start, item.body!.end)) {
+    if (member.keyword === 'fn') {
+      trait.functions.push(parseFunction(file, member, visibility));
+    } else {
+      addDeclaration(file, trait, member, 'internal');
+    }
+  }
+  return trait;
+}
+
+/**
+ * Constants, structs, enums, type aliases and free functions
+ */
+function addDeclaration(
+  file: CairoFile,
+  contract: ContractInfo,
+  item: Item,
+  visibility: 'internal' | 'private'
+): void {
+  const docs = docComment(file, item);
+  const range = { startLine: lineOf(file, item.start), endLine: lineOf(file, item.end) };
+
+  switch (item.keyword) {
+    case 'fn':
+      contract.functions.push(parseFunction(file, item, visibility));
+      break;
+    case 'const': {
+      const match = item.header.match(/^const\s+(\w+)\s*:\s*([^=]+?)\s*(?:=\s*(.+?))?\s*;?$/);
+      if (!match) break;
+      contract.stateVariables.push({
+        name: match[1],
+        signature: item.header.replace(/;$/, ''),
+        type: match[2],
+        visibility,
+        mutability: 'constant',
+        value: match[3],
+        ...docs,
+        ...range,
+      });
+      break;
+    }
+    case 'struct':
+      if (isEventStruct(item)) {
+        contract.events.push(parseEvent(file, item));
+      } else {
+        contract.structs.push({
+          name: item.name,
+          signature: item.header,
+          fields: parseFields(file, item),
+          ...docs,
+          ...range,
+        } satisfies StructInfo);
+      }
+      break;
+    case 'enum':
+      contract.enums.push({
+        name: item.name,
+        signature: item.header,
+        values: item.body
+          ? splitTopLevel(file.uncommented.slice(item.body.start, item.body.end))
+            .map(variant => variant.replace(/#\[[^\]]*\]/g, '').split(':')[0].trim())
+            .filter(Boolean)
+          : [],
+        ...docs,
+        ...range,
+      } satisfies EnumInfo);
+      break;
+    case 'type': {
+      const underlying = item.header.match(/=\s*(.+?);?$/)?.[1];
+      if (!underlying) break;
+      contract.userTypes.push({
+        name: item.name,
+        signature: item.header.replace(/;$/, ''),
+        underlyingType: underlying,
+        ...docs,
+        ...range,
+      });
+      break;
+    }
+  }
+}
+
+function parseFunction(
+  file: CairoFile,
+  item: Item,
+  visibility: FunctionInfo['visibility']
+): FunctionInfo {
+  const open = findParamsStart(item.header);
+  const close = matchingBracket(item.header, open);
+  const params = splitTopLevel(item.header.slice(open + 1, close)).map(parseParam);
+  const returnType = item.header.slice(close + 1).match(/->\s*(.+?)\s*;?$/)?.[1];
+
+  // The receiver decides what a function can do with the state
+  const self = params.find(param => param.name === 'self');
+  const mutability = !self ? 'pure' : /^@/.test(self.type) ? 'view' : '';
+
+  return {
+    name: item.name,
+    signature: item.header.replace(/;$/, ''),
+    visibility,
+    mutability,
+    params: params.filter(param => param !== self).map(({ name, type }) => ({ name, type })),
+    returns: returnType ? [{ type: returnType }] : [],
+    ...docComment(file, item),
+    startLine: lineOf(file, item.start),
+    endLine: lineOf(file, item.end),
+  };
+}
+
+function parseParam(param: string): { name: string; type: string } {
+  const colon = param.indexOf(':');
+  if (colon < 0) return { name: param.trim(), type: '' };
+  return {
+    name: param.slice(0, colon).replace(/^\s*(ref|mut)\s+/, '').trim(),
+    type: param.slice(colon + 1).trim(),
+  };
+}
+
+function parseEvent(file: CairoFile, item: Item): EventInfo {
+  return {
+    name: item.name,
+    signature: item.header,
+    params: parseFields(file, item),
+    ...docComment(file, item),
+    startLine: lineOf(file, item.start),
+    endLine: lineOf(file, item.end),
+  };
+}
+
+/**
+ * Struct fields; `#[key]` fields of events are indexed
+ */
+function parseFields(file: CairoFile, item: Item): ParamInfo[] {
+  if (!item.body) return [];
+  return splitTopLevel(file.uncommented.slice(item.body.start, item.body.end))
+    .map(field => {
+      const indexed = /#\[key\]/.test(field);
+      const { name, type } = parseParam(field.replace(/#\[[^\]]*\]/g, '').replace(/^\s*pub\s+/, ''));
+      return indexed ? { name, type, indexed } : { name, type };
+    })
+    .filter(field => field.name);
+}
+
+/**
+ * Error messages of an `Errors` module: `pub const INVALID_CALLER: felt252 = 'Invalid caller';`
+ */
+function parseErrors(file: CairoFile, item: Item): ErrorInfo[] {
+  return scanItems(file, item.body!.start, item.body!.end)
+    .filter(member => member.keyword === 'const')
+    .map(member => ({
+      name: member.name,
+      signature: member.header.replace(/;$/, ''),
+      params: [],
+      ...docComment(file, member),
+      startLine: lineOf(file, member.start),
+      endLine: lineOf(file, member.end),
+    }));
+}
+
+function isEventStruct(item: Item): boolean {
+  return item.attributes.some(a => a.startsWith('derive') && a.includes('starknet::Event'));
+}
+
+function isTestOnly(item: Item): boolean {
+  return item.attributes.some(a => a.replace(/\s/g, '') === 'cfg(test)');
+}
+
+function addBase(contract: ContractInfo, base: string): void {
+  if (!contract.inheritance.includes(base)) contract.inheritance.push(base);
+}
+
+function newContract(
+  file: CairoFile,
+  name: string,
+  type: ContractInfo['type'],
+  importPath: string,
+  item?: Item
+): ContractInfo {
+  const docs = item ? docComment(file, item) : {};
+  return {
+    name,
+    type,
+    product: 'contracts-cairo',
+    category: file.category,
+    version: file.version,
+    inheritance: [],
+    sourcePath: file.sourcePath,
+    importPath,
+    startLine: item && lineOf(file, item.start),
+    endLine: item && lineOf(file, item.end),
+    natspecNotice: docs.natspecNotice,
+    sourceUrl: file.sourceUrl,
+    functions: [],
+    events: [],
+    errors: [],
+    modifiers: [],
+    stateVariables: [] as StateVariableInfo[],
+    structs: [],
+    enums: [],
+    userTypes: [],
+    usingFor: [],
+  };
+}
+
+/**
+ * Declarations between two offsets of the masked source: attributes,
+ * visibility, keyword, header and body or terminating ';'. Macro invocations
+ * such as `component!(...)` are reported with the keyword 'macro'.
+ */
+function scanItems(file: CairoFile, start: number, end: number): Item[] {
+  const { masked, source } = file;
+  const items: Item[] = [];
+  let attributes: string[] = [];
+  let pos = start;
+
+  while (pos < end) {
+    while (pos < end && /\s/.test(masked[pos])) pos++;
+    if (pos >= end) break;
+
+    if (masked.startsWith('#[', pos)) {
+      const close = matchingBracket(masked, pos + 1);
+      attributes.push(source.slice(pos + 2, close).replace(/\s+/g, ' ').trim());
+      pos = close + 1;
+      continue;
+    }
+
+    let cursor = pos;
+    let isPub = false;
+    const visibility = masked.slice(cursor, end).match(/^pub(\s*\([^)]*\))?\s+/);
+    if (visibility) {
+      isPub = true;
+      cursor += visibility[0].length;
+    }
+
+    const rest = masked.slice(cursor, Math.min(end, cursor + 200));
+    const keyword = rest.match(ITEM_KEYWORD)?.[1];
+    const macro = keyword ? undefined : rest.match(/^(\w+)!\s*\(/)?.[1];
+    const terminator = findTerminator(masked, cursor, end, keyword === 'const' || keyword === 'type' || keyword === 'use');
+
+    if (keyword || macro) {
+      const header = source.slice(cursor, terminator.body ? terminator.body.start - 1 : terminator.end)
+        .replace(/\s+/g, ' ')
+        .replace(/\(\s+/g, '(')
+        .replace(/,?\s*\)/g, ')')
+        .trim();
+      const name = macro ?? (keyword === 'impl'
+        ? header.match(/^impl\s+(\w+)/)?.[1]
+        : header.match(new RegExp(`^${keyword}\\s+(\\w+)`))?.[1]) ?? '';
+
+      items.push({
+        keyword: keyword ?? 'macro',
+        name,
+        attributes,
+        isPub,
+        header,
+        body: terminator.body,
+        start: cursor,
+        end: terminator.end,
+      });
+    }
+
+    attributes = [];
+    pos = Math.max(terminator.end, pos + 1);
+  }
+
+  return items;
+}
+
+/**
+ * End of a declaration starting at `start`: its brace-delimited body, or the
+ * first ';' outside brackets. Declarations ending with ';' only (constants,
+ * type aliases, imports) may contain braces, e.g. struct literals.
+ */
+function findTerminator(
+  masked: string,
+  start: number,
+  end: number,
+  semicolonOnly: boolean
+): { body?: { start: number; end: number }; end: number } {
+  let depth = 0;
+  for (let i = start; i < end; i++) {
+    const char = masked[i];
+    if (char === '(' || char === '[' || (char === '{' && (semicolonOnly || depth > 0))) {
+      depth++;
+    } else if (char === ')' || char === ']' || (char === '}' && depth > 0)) {
+      depth--;
+    } else if (char === '{' && depth === 0) {
+      const close = matchingBracket(masked, i);
+      return { body: { start: i + 1, end: close }, end: close + 1 };
+    } else if (char === ';' && depth === 0) {
+      return { end: i + 1 };
+    } else if (char === '}' && depth === 0) {
+      // Unterminated declaration at the end of a block
+      return { end: i };
+    }
+  }
+  return { end };
+}
+
+/**
+ * Offset of the bracket closing the one at `open`, in masked text
+ */
+function matchingBracket(text: string, open: number): number {
+  const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+  const opening = text[open];
+  const closing = pairs[opening];
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === opening) depth++;
+    else if (text[i] === closing && !(opening === '<' && text[i - 1] === '-')) depth--;
+    if (depth === 0) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Offset of the '(' opening a function's parameters, after its generics
+ */
+function findParamsStart(header: string): number {
+  const name = header.match(/^fn\s+\w+\s*/);
+  let pos = name ? name[0].length : 0;
+  if (header[pos] === '<') pos = matchingBracket(header, pos) + 1;
+  const open = header.indexOf('(', pos);
+  return open >= 0 ? open : header.length;
+}
+
+/**
+ * Split on commas outside brackets, dropping empty parts (trailing commas)
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('([{<'.includes(char)) depth++;
+    else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '-')) depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * `///` comments above a declaration (and its attributes): the first
+ * paragraph is the notice, the rest the details
+ */
+function docComment(file: CairoFile, item: Item): { natspecNotice?: string; natspecDev?: string } {
+  const docs: string[] = [];
+  for (let line = lineOf(file, item.start) - 2; line >= 0; line--) {
+    const text = file.lines[line].trim();
+    if (text.startsWith('///')) {
+      docs.unshift(text.replace(/^\/\/\/ ?/, ''));
+    } else if (!text.startsWith('#[') && !/^[\])]/.test(text)) {
+      break;
+    }
+  }
+
+  const text = docs.join('\n').trim();
+  if (!text) return {};
+  // Component docs open with a heading ('# ERC20 Component')
+  const paragraphs = text.split(/\n\s*\n/);
+  if (paragraphs.length > 1 && /^#+\s/.test(paragraphs[0])) paragraphs.shift();
+  const [notice, ...details] = paragraphs;
+  return {
+    natspecNotice: notice.replace(/\n/g, ' '),
+    natspecDev: details.length > 0 ? details.join('\n\n') : undefined,
+  };
+}
+
+/**
+ * Blank out comments and, with `maskStrings`, string and short string
+ * literals, keeping offsets and line breaks
+ */
+function maskSource(source: string, maskStrings: boolean): string {
+  let masked = '';
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      masked += ' '.repeat(stop - i);
+      i = stop;
+    } else if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char && source[j] !== '\n') {
+        if (source[j] === '\\') j++;
+        j++;
+      }
+      const literal = source.slice(i, j + 1);
+      masked += maskStrings ? char + ' '.repeat(Math.max(0, literal.length - 2)) + (j < source.length ? char : '') : literal;
+      i = j + 1;
+    } else {
+      masked += char;
+      i++;
+    }
+  }
+  return masked.slice(0, source.length);
+}
+
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * 1-based line of an offset
+ */
+function lineOf(file: CairoFile, offset: number): number {
+  let low = 0;
+  let high = file.lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (file.lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+function lastSegment(pathName: string): string {
+  return pathName.replace(/<.*$/, '').split('::').pop()!.trim();
+}
+
+function detectCategory(sourcePath: string): string {
+  for (const [category, pattern] of Object.entries(CATEGORY_PATTERNS)) {
+    if (pattern.test(`/${sourcePath}`)) {
+      return category;
+    }
+  }
+  return 'general';
+}
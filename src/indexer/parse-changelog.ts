@@ -0,0 +1,171 @@
+import type { ChangelogEntry } from '../types.js';
+
+// '## 5.0.0 (2023-10-05)', '## v2.0.0', '## 5.1.0-rc.0 (2024-10-02)'
+const RELEASE_HEADING = /^v?(\d+\.\d+\.\d+(?:-[\w.]+)?)(?:\s*\((\d{4}-\d{2}-\d{2})\))?/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const BULLET = /^[-*]\s+/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*(?:\(.*\))?$/;
+// Opening line of a fenced code block: '```solidity', '  ~~~'
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+// Names declared by more contracts (e.g. the Transfer event) are too common to link
+const MAX_DECLARING_CONTRACTS = 3;
+
+/**
+ * Split a changelog into one entry per top-level list item or paragraph,
+ * grouped under their release heading (`## 5.0.0 (2023-10-05)`) and the
+ * headings below it. Nested lists, continuation lines and code blocks stay
+ * with their entry; entries of unreleased sections are skipped. `sourceUrl`
+ * is the changelog's URL, entries link to the anchor of their release.
+ */
+export function parseChangelog(content: string, sourceUrl?: string): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+
+  let release: { release: string; date?: string; anchor: string } | null = null;
+  let section: string[] = [];
+  let current: { lines: string[]; isList: boolean } | null = null;
+  let blankSeen = false;
+  // Marker of the open fenced code block; only the same marker, at least as long, closes it
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current && release) {
+      const text = current.lines.join('\n').trim();
+      if (text) {
+        entries.push(toEntry(text, release, section, sourceUrl));
+      }
+    }
+    current = null;
+    blankSeen = false;
+  };
+
+  for (const line of content.split('\n')) {
+    if (fence) {
+      current?.lines.push(current.isList ? line.replace(/^ {2}/, '') : line);
+      const closing = line.trim();
+      if (closing.startsWith(fence) && [...closing].every(char => char === fence![0])) fence = null;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      const title = heading[2];
+      if (level === 2) {
+        const match = title.match(RELEASE_HEADING);
+        release = match ? { release: match[1], date: match[2], anchor: headingAnchor(title) } : null;
+        section = [];
+      } else if (level > 2) {
+        section = [...section.slice(0, level - 3), title];
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      current?.lines.push('');
+      blankSeen = true;
+      continue;
+    }
+
+    // After a blank line, only indented lines and code blocks continue an entry
+    const indented = /^\s/.test(line);
+    const opening = line.match(FENCE)?.[1] ?? null;
+    if (!indented && BULLET.test(line)) {
+      flush();
+      current = { lines: [line.replace(BULLET, '')], isList: true };
+    } else if (current && (indented || opening || !blankSeen)) {
+      current.lines.push(current.isList ? line.replace(/^ {2}/, '') : line);
+    } else {
+      flush();
+      current = { lines: [line], isList: false };
+    }
+    blankSeen = false;
+
+    fence = opening;
+  }
+  flush();
+
+  return entries;
+}
+
+function toEntry(
+  content: string,
+  release: { release: string; date?: string; anchor: string },
+  section: string[],
+  sourceUrl?: string
+): ChangelogEntry {
+  const references: string[] = [];
+  for (const match of content.matchAll(/`([^`\n]+)`/g)) {
+    const reference = match[1].trim();
+    if (!IDENTIFIER.test(reference)) continue;
+    const name = reference.replace(/\(.*\)$/, '');
+    if (!references.includes(name)) references.push(name);
+  }
+
+  const pullRequests = [...new Set(
+    [...content.matchAll(/(?:#|\/pull\/)(\d+)\b/g)].map(match => Number(match[1]))
+  )];
+
+  return {
+    release: release.release,
+    date: release.date,
+    section,
+    content,
+    breaking: section.some(heading => /breaking|removal/i.test(heading)) ||
+      /(?<!non-)\bbreaking\b/i.test(content),
+    references,
+    pullRequests,
+    sourceUrl: sourceUrl && `${sourceUrl}#${release.anchor}`,
+  };
+}
+
+/**
+ * Contracts and 'Contract.member' references of an entry, checked against
+ * the member names of every indexed contract. Bare member names (`quorum`)
+ * belong to the contracts an entry starts with (`` `Governor`: ... ``);
+ * other capitalized names (errors, events, structs) link to the few contracts
+ * declaring them.
+ */
+export function linkChangelogEntry(
+  entry: ChangelogEntry,
+  memberNames: Map<string, Set<string>>
+): { contracts: string[]; members: string[] } {
+  const contracts = new Set<string>();
+  const members = new Set<string>();
+
+  const prefix = entry.content.match(/^((?:`[^`]+`(?:,\s*|\s+and\s+)?)+):/)?.[1] ?? '';
+  const subjects = [...prefix.matchAll(/`([^`]+)`/g)]
+    .map(match => match[1])
+    .filter(name => memberNames.has(name));
+
+  for (const reference of entry.references) {
+    const parts = reference.split('.');
+    const member = parts[parts.length - 1];
+
+    if (parts.length > 1 && memberNames.has(parts[0])) {
+      contracts.add(parts[0]);
+      if (memberNames.get(parts[0])!.has(member)) members.add(`${parts[0]}.${member}`);
+    } else if (parts.length === 1 && memberNames.has(reference)) {
+      contracts.add(reference);
+    } else if (parts.length === 1 && /^[a-z_$]/.test(reference)) {
+      for (const subject of subjects) {
+        if (memberNames.get(subject)!.has(reference)) members.add(`${subject}.${reference}`);
+      }
+    } else if (parts.length === 1) {
+      const declaredIn = [...memberNames].filter(([, names]) => names.has(reference)).map(([name]) => name);
+      if (declaredIn.length <= MAX_DECLARING_CONTRACTS) {
+        for (const name of declaredIn) members.add(`${name}.${reference}`);
+      }
+    }
+  }
+
+  return { contracts: [...contracts], members: [...members] };
+}
+
+/**
+ * GitHub's anchor for a heading: '5.0.0 (2023-10-05)' -> '500-2023-10-05'
+ */
+function headingAnchor(title: string): string {
+  return title.toLowerCase().replace(/[^\w\- ]/g, '').replace(/ /g, '-');
+}
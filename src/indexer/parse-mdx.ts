@@ -5,8 +5,9 @@ import { visit } from 'unist-util-visit';
 import fs from 'fs/promises';
 import path from 'path';
 import { glob } from 'glob';
+import { PRODUCTS, PRODUCT_INFO, UNVERSIONED_RELEASE, type Product } from './releases.js';
 import type { DocChunk } from '../types.js';
-import type { Root, Content, Heading, Code, Text } from 'mdast';
+import type { Root, Content, Heading, Code } from 'mdast';
 
 // Category mapping from file paths
 const CATEGORY_PATTERNS: Record<string, RegExp> = {
@@ -19,33 +20,58 @@ const CATEGORY_PATTERNS: Record<string, RegExp> = {
   metatx: /\/(metatx|api\/metatx)\//,
   interfaces: /\/(interfaces|api\/interfaces)\//,
   crosschain: /\/(crosschain|api\/crosschain)\//,
+  account: /\/(accounts?|api\/account)\//,
+  introspection: /\/(introspection|api\/introspection)\//,
+  security: /\/(security|api\/security)\//,
+  upgrades: /\/(upgrades|api\/upgrades)\//,
+};
+
+// Directory of a documentation series, e.g. '5.x' or '0.20.x'
+const SERIES_DIRECTORY = /^\d+(?:\.\d+)*\.x$/;
+
+// Labels of JSX admonition components, by component name or `type`
+const ADMONITIONS: Record<string, string> = {
+  callout: 'Note',
+  note: 'Note',
+  info: 'Note',
+  success: 'Note',
+  tip: 'Tip',
+  idea: 'Tip',
+  important: 'Important',
+  warn: 'Warning',
+  warning: 'Warning',
+  caution: 'Caution',
+  error: 'Danger',
+  danger: 'Danger',
 };
 
 interface ParsedSection {
   title: string;
+  breadcrumb: string[];
   content: string;
   level: number;
   codeExamples: string[];
 }
 
-export async function parseMdxFiles(docsDir: string): Promise<DocChunk[]> {
-  const chunks: DocChunk[] = [];
-
-  // Find MDX files for both versions
-  const v5Pattern = path.join(docsDir, 'modules/ROOT/pages/**/*.adoc');
-  const v5PatternMdx = path.join(docsDir, 'content/contracts/5.x/**/*.mdx');
-  const v4PatternMdx = path.join(docsDir, 'content/contracts/4.x/**/*.mdx');
+type JsxAttributes = Extract<Content, { type: 'mdxJsxFlowElement' }>['attributes'];
 
-  // Try both patterns since the docs structure may vary
-  const patterns = [v5PatternMdx, v4PatternMdx];
+/**
+ * Parse the MDX pages of the given products from the docs repository
+ * (content/<product docs>/). Chunks of versioned pages (under a series
+ * directory such as 5.x/) carry the series as their version, the others
+ * UNVERSIONED_RELEASE.
+ */
+export async function parseMdxFiles(docsDir: string, products: readonly Product[] = PRODUCTS): Promise<DocChunk[]> {
+  const chunks: DocChunk[] = [];
 
-  for (const pattern of patterns) {
+  for (const product of products) {
+    const pattern = path.join(docsDir, 'content', PRODUCT_INFO[product].docs, '**/*.mdx');
     const files = await glob(pattern);
     console.log(`Found ${files.length} MDX files matching ${pattern}`);
 
-    for (const filePath of files) {
+    for (const filePath of files.sort()) {
       try {
-        const fileChunks = await parseMdxFile(filePath);
+        const fileChunks = await parseMdxFile(filePath, product);
         chunks.push(...fileChunks);
       } catch (error) {
         console.warn(`Warning: Failed to parse ${filePath}:`, error);
@@ -56,9 +82,11 @@ export async function parseMdxFiles(docsDir: string): Promise<DocChunk[]> {
   return chunks;
 }
 
-export async function parseMdxFile(filePath: string): Promise<DocChunk[]> {
+export async function parseMdxFile(filePath: string, product: Product = 'contracts'): Promise<DocChunk[]> {
   const content = await fs.readFile(filePath, 'utf-8');
-  const version = detectVersion(filePath);
+  const docsPath = docsRelativePath(filePath, product);
+  const version = detectVersion(docsPath);
+  const sourceUrl = buildSourceUrl(docsPath, product);
   const category = detectCategory(filePath);
   const module = detectModule(filePath);
 
@@ -71,46 +99,24 @@ export async function parseMdxFile(filePath: string): Promise<DocChunk[]> {
     .use(remarkMdx)
     .parse(body) as Root;
 
-  // Extract sections from AST
-  const sections = extractSections(tree);
+  // Extract sections from AST; the page title heads every breadcrumb
+  const pageHeading = tree.children.find((node): node is Heading => node.type === 'heading' && node.depth === 1);
+  const pageTitle = frontmatter.title || (pageHeading && extractHeadingText(pageHeading)) || module;
+  const sections = extractSections(tree, pageTitle);
 
   // Convert sections to DocChunks
-  const chunks: DocChunk[] = [];
-
-  // If no sections found, create a single chunk for the whole document
-  if (sections.length === 0) {
-    const allContent = extractAllText(tree);
-    if (allContent.trim()) {
-      chunks.push({
-        title: frontmatter.title || module,
-        content: allContent,
-        category,
-        module,
-        version,
-        sourceType: detectSourceType(filePath),
-        sourceUrl: buildSourceUrl(filePath, version),
-        filePath,
-      });
-    }
-  } else {
-    // Create chunks for each section
-    for (const section of sections) {
-      if (section.content.trim()) {
-        chunks.push({
-          title: section.title || frontmatter.title || module,
-          content: section.content,
-          category,
-          module,
-          version,
-          sourceType: detectSourceType(filePath),
-          sourceUrl: buildSourceUrl(filePath, version),
-          filePath,
-        });
-      }
-    }
-  }
-
-  return chunks;
+  return sections.map(section => ({
+    title: section.title,
+    breadcrumb: section.breadcrumb,
+    content: section.content,
+    category,
+    module,
+    product,
+    version,
+    sourceType: detectSourceType(filePath),
+    sourceUrl,
+    filePath,
+  }));
 }
 
 function extractFrontmatter(content: string): { frontmatter: Record<string, string>; body: string } {
@@ -135,92 +141,199 @@ function extractFrontmatter(content: string): { frontmatter: Record<string, stri
   return { frontmatter, body };
 }
 
-function extractSections(tree: Root): ParsedSection[] {
+/**
+ * Split the page on its h2 and h3 headings. Content before the first h2 is
+ * a section of its own, titled after the page; h4 and deeper headings stay
+ * in their section.
+ */
+function extractSections(tree: Root, pageTitle: string): ParsedSection[] {
   const sections: ParsedSection[] = [];
-  let currentSection: ParsedSection | null = null;
-
-  visit(tree, (node: Content) => {
-    if (node.type === 'heading') {
-      const heading = node as Heading;
-      // Only split on h2 and h3
-      if (heading.depth === 2 || heading.depth === 3) {
-        if (currentSection && currentSection.content.trim()) {
-          sections.push(currentSection);
-        }
-        currentSection = {
-          title: extractHeadingText(heading),
-          content: '',
-          level: heading.depth,
-          codeExamples: [],
-        };
-      }
-    } else if (currentSection) {
-      if (node.type === 'code') {
-        const code = node as Code;
-        currentSection.codeExamples.push(code.value);
-        currentSection.content += `\n\`\`\`${code.lang || ''}\n${code.value}\n\`\`\`\n`;
-      } else if (node.type === 'paragraph' || node.type === 'text') {
-        currentSection.content += extractNodeText(node) + '\n';
-      }
+  let currentSection: ParsedSection = { title: pageTitle, breadcrumb: [pageTitle], content: '', level: 1, codeExamples: [] };
+  let parentSection = currentSection; // Latest h2 (or the page), for the breadcrumb of h3 sections
+
+  for (const node of tree.children) {
+    if (node.type === 'heading' && node.depth <= 3) {
+      // The h1 is the page title
+      if (node.depth === 1) continue;
+
+      sections.push(currentSection);
+      const title = extractHeadingText(node);
+      const parent = node.depth === 2 ? sections[0] : parentSection;
+      currentSection = {
+        title,
+        breadcrumb: [...parent.breadcrumb, title],
+        content: '',
+        level: node.depth,
+        codeExamples: [],
+      };
+      if (node.depth === 2) parentSection = currentSection;
+      continue;
     }
-  });
 
-  // Don't forget the last section
-  if (currentSection && currentSection.content.trim()) {
-    sections.push(currentSection);
+    visit(node, 'code', (code: Code) => {
+      currentSection.codeExamples.push(code.value);
+    });
+    const text = renderBlock(node);
+    if (text.trim()) currentSection.content += `${text}\n\n`;
   }
 
-  return sections;
+  // Don't forget the last section
+  sections.push(currentSection);
+
+  return sections
+    .map(section => ({ ...section, content: section.content.trim() }))
+    .filter(section => section.content);
 }
 
 function extractHeadingText(heading: Heading): string {
   let text = '';
-  visit(heading, 'text', (node: Text) => {
-    text += node.value;
+  visit(heading, (node: Content) => {
+    if (node.type === 'text' || node.type === 'inlineCode') {
+      text += node.value;
+    }
   });
   return text;
 }
 
-function extractNodeText(node: Content): string {
-  if (node.type === 'text') {
-    return (node as Text).value;
+/**
+ * Render a block as markdown. JSX admonitions (`<Callout type="warn">`,
+ * `<Warning>`) become labelled blockquotes, JSX tables markdown tables, and
+ * other components their content; imports, exports and expressions are
+ * dropped.
+ */
+function renderBlock(node: Content): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.children);
+    case 'heading':
+      return `${'#'.repeat(node.depth)} ${renderInline(node.children)}`;
+    case 'code':
+      return `\`\`\`${node.lang || ''}\n${node.value}\n\`\`\``;
+    case 'list':
+      return node.children.map((item, index) => {
+        const marker = node.ordered ? `${(node.start ?? 1) + index}.` : '-';
+        const checkbox = item.checked == null ? '' : item.checked ? '[x] ' : '[ ] ';
+        const content = item.children.map(renderBlock).filter(Boolean).join('\n');
+        return `${marker} ${checkbox}${content.split('\n').join(`\n${' '.repeat(marker.length + 1)}`)}`;
+      }).join('\n');
+    case 'blockquote':
+      return quote(renderBlocks(node.children));
+    case 'table':
+      return renderTable(node.children.map(row => row.children.map(cell => renderInline(cell.children))));
+    case 'thematicBreak':
+      return '---';
+    case 'html':
+      return node.value;
+    case 'mdxJsxFlowElement':
+      return renderComponent(node.name ?? '', node.attributes, node.children as Content[]);
+    default:
+      return '';
   }
+}
 
-  let text = '';
-  if ('children' in node && Array.isArray(node.children)) {
-    for (const child of node.children) {
-      text += extractNodeText(child as Content);
+function renderBlocks(nodes: Content[]): string {
+  return nodes.map(renderBlock).filter(text => text.trim()).join('\n\n');
+}
+
+function renderInline(nodes: Content[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'html':
+        return node.value;
+      case 'inlineCode':
+        return `\`${node.value}\``;
+      case 'emphasis':
+        return `_${renderInline(node.children)}_`;
+      case 'strong':
+        return `**${renderInline(node.children)}**`;
+      case 'delete':
+        return `~~${renderInline(node.children)}~~`;
+      case 'link':
+        return `[${renderInline(node.children)}](${node.url})`;
+      case 'image':
+        return `![${node.alt ?? ''}](${node.url})`;
+      case 'break':
+        return '\n';
+      case 'linkReference':
+      case 'mdxJsxTextElement':
+        return renderInline(node.children);
+      case 'mdxTextExpression':
+        // String literals, e.g. {'{'} to escape a brace
+        return node.value.match(/^\s*(['"`])(.*)\1\s*$/)?.[2] ?? '';
+      default:
+        return '';
     }
+  }).join('');
+}
+
+function renderComponent(name: string, attributes: JsxAttributes, children: Content[]): string {
+  const attribute = (key: string) => {
+    const found = attributes.find(a => a.type === 'mdxJsxAttribute' && a.name === key);
+    return typeof found?.value === 'string' ? found.value : undefined;
+  };
+
+  if (name.toLowerCase() === 'table') {
+    const rows: string[][] = [];
+    visit({ type: 'root', children } as Root, node => {
+      if (node.type !== 'root' && isJsxElement(node, 'tr')) {
+        const cells: string[] = [];
+        visit(node, (cell: Content) => {
+          if (isJsxElement(cell, 'th') || isJsxElement(cell, 'td')) {
+            cells.push(cell.type === 'mdxJsxFlowElement'
+              ? renderBlocks(cell.children as Content[])
+              : renderInline(cell.children));
+          }
+        });
+        rows.push(cells);
+      }
+    });
+    return renderTable(rows);
   }
-  return text;
+
+  const content = renderBlocks(children);
+  const kind = name.toLowerCase() in ADMONITIONS || name === 'Admonition'
+    ? ADMONITIONS[attribute('type')?.toLowerCase() ?? ''] ?? ADMONITIONS[name.toLowerCase()] ?? 'Note'
+    : undefined;
+  const title = attribute('title') ?? attribute('label') ?? attribute('value');
+
+  if (kind) {
+    return quote(title ? `**${kind}: ${title}**\n\n${content}` : `**${kind}:** ${content}`);
+  }
+  return title ? `**${title}**\n\n${content}` : content;
 }
 
-function extractAllText(tree: Root): string {
-  let text = '';
+function isJsxElement(node: Content, name: string): node is Extract<Content, { type: 'mdxJsxFlowElement' | 'mdxJsxTextElement' }> {
+  return (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') && node.name === name;
+}
 
-  visit(tree, (node: Content) => {
-    if (node.type === 'text') {
-      text += (node as Text).value + ' ';
-    } else if (node.type === 'code') {
-      const code = node as Code;
-      text += `\n\`\`\`${code.lang || ''}\n${code.value}\n\`\`\`\n`;
-    }
-  });
+function renderTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const lines = rows.map(cells => `| ${cells.map(cell => cell.replace(/\n+/g, ' ')).join(' | ')} |`);
+  lines.splice(1, 0, `|${rows[0].map(() => ' --- |').join('')}`);
+  return lines.join('\n');
+}
 
-  return text.trim();
+function quote(text: string): string {
+  return text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
 }
 
-function detectVersion(filePath: string): string {
-  if (filePath.includes('/5.x/') || filePath.includes('/v5') || filePath.includes('contracts-v5')) {
-    return '5.x';
-  }
-  if (filePath.includes('/4.x/') || filePath.includes('/v4') || filePath.includes('contracts-v4')) {
-    return '4.x';
-  }
-  return '5.x'; // Default to latest
+/**
+ * Path of a page below its product's docs directory, e.g. '5.x/erc20.mdx'
+ */
+function docsRelativePath(filePath: string, product: Product): string {
+  const marker = `/content/${PRODUCT_INFO[product].docs}/`;
+  const normalized = filePath.split(path.sep).join('/');
+  const index = normalized.lastIndexOf(marker);
+  return index >= 0 ? normalized.slice(index + marker.length) : path.basename(normalized);
 }
 
-function detectCategory(filePath: string): string {
+function detectVersion(docsPath: string): string {
+  const series = docsPath.split('/').find(segment => SERIES_DIRECTORY.test(segment));
+  return series ?? UNVERSIONED_RELEASE;
+}
+
+export function detectCategory(filePath: string): string {
   for (const [category, pattern] of Object.entries(CATEGORY_PATTERNS)) {
     if (pattern.test(filePath)) {
       return category;
@@ -229,7 +342,7 @@ function detectCategory(filePath: string): string {
   return 'general';
 }
 
-function detectModule(filePath: string): string {
+export function detectModule(filePath: string): string {
   // Extract module name from file name
   const basename = path.basename(filePath, path.extname(filePath));
 
@@ -244,18 +357,15 @@ function detectModule(filePath: string): string {
     .join('');
 }
 
-function detectSourceType(filePath: string): 'guide' | 'api' | 'natspec' {
+export function detectSourceType(filePath: string): 'guide' | 'api' | 'natspec' {
   if (filePath.includes('/api/')) {
     return 'api';
   }
   return 'guide';
 }
 
-function buildSourceUrl(filePath: string, version: string): string {
-  // Build URL to docs.openzeppelin.com
-  const relativePath = filePath
-    .replace(/.*\/content\/contracts\//, '')
-    .replace(/\.mdx$/, '');
-
-  return `https://docs.openzeppelin.com/contracts/${version}/${relativePath}`;
+function buildSourceUrl(docsPath: string, product: Product): string {
+  // Pages are served at their path below content/, series directory included
+  const relativePath = docsPath.replace(/(^|\/)index\.mdx$/, '').replace(/\.mdx$/, '');
+  return `https://docs.openzeppelin.com/${PRODUCT_INFO[product].docs}/${relativePath}`.replace(/\/$/, '');
 }
@@ -3,9 +3,23 @@ import type {
   ContractDefinition,
   FunctionDefinition,
   EventDefinition,
-  ErrorDefinition,
+  CustomErrorDefinition,
   ModifierDefinition,
+  StateVariableDeclaration,
+  StructDefinition,
+  EnumDefinition,
+  TypeDefinition,
+  UsingForDeclaration,
+  FileLevelConstant,
+  FunctionCall,
+  EmitStatement,
+  RevertStatement,
+  IfStatement,
+  BinaryOperation,
+  VariableDeclarationStatement,
   VariableDeclaration,
+  Expression,
+  BaseASTNode,
   TypeName,
   SourceUnit,
 } from '@solidity-parser/parser/dist/src/ast-types.js';
@@ -18,9 +32,21 @@ import type {
   EventInfo,
   ErrorInfo,
   ModifierInfo,
+  StateVariableInfo,
+  StructInfo,
+  EnumInfo,
+  UserDefinedTypeInfo,
+  UsingForInfo,
+  ModifierInvocationInfo,
+  CustomTags,
+  ContractVariant,
+  SourceRange,
+  CallInfo,
+  RaiseSite,
   ParamInfo,
   ReturnInfo,
 } from '../types.js';
+import { toImportPath } from './imports.js';
 
 // Category mapping from file paths
 const CATEGORY_PATTERNS: Record<string, RegExp> = {
@@ -37,33 +63,60 @@ const CATEGORY_PATTERNS: Record<string, RegExp> = {
   vendor: /\/vendor\//,
 };
 
+const BUILTIN_FUNCTIONS = new Set([
+  'require', 'assert', 'revert', 'keccak256', 'sha256', 'ripemd160', 'ecrecover',
+  'addmod', 'mulmod', 'selfdestruct', 'blockhash', 'blobhash', 'gasleft', 'type',
+  'payable', 'address',
+]);
+const BUILTIN_NAMESPACES = new Set(['abi', 'msg', 'block', 'tx', 'bytes', 'string']);
+const BUILTIN_MEMBERS = new Set(['wrap', 'unwrap']);
+
 interface NatSpecComment {
+  title?: string;
   notice?: string;
   dev?: string;
   params: Record<string, string>;
   returns: Record<string, string>;
   inheritdoc?: string;
+  custom: CustomTags;
 }
 
-export async function parseSolidityFiles(contractsDir: string, version: string): Promise<ContractInfo[]> {
+/**
+ * Parse every Solidity file of a contracts directory: a checkout's contracts/
+ * or an npm package, whose files are stored under their repository path
+ * ('contracts/...'). With `tag`, contracts link to the file on GitHub.
+ */
+export async function parseSolidityFiles(
+  contractsDir: string,
+  version: string,
+  variant: ContractVariant = 'standard',
+  tag?: string
+): Promise<ContractInfo[]> {
   const contracts: ContractInfo[] = [];
 
-  const pattern = path.join(contractsDir, 'contracts/**/*.sol');
-  const files = await glob(pattern);
+  const files = await glob('**/*.sol', { cwd: contractsDir, ignore: ['node_modules/**'] });
 
   console.log(`Found ${files.length} Solidity files in ${contractsDir}`);
 
-  for (const filePath of files) {
+  for (const file of files.sort()) {
+    const sourcePath = `contracts/${file.split(path.sep).join('/')}`;
+
     // Skip mocks and test files
-    if (filePath.includes('/mocks/') || filePath.includes('/test/')) {
+    if (sourcePath.includes('/mocks/') || sourcePath.includes('/test/')) {
       continue;
     }
 
     try {
-      const fileContracts = await parseSolidityFile(filePath, version);
+      const source = await fs.readFile(path.join(contractsDir, file), 'utf-8');
+      const fileContracts = parseSoliditySource(source, sourcePath, version);
+      for (const contract of fileContracts) {
+        contract.variant = variant;
+        contract.importPath = toImportPath(sourcePath, variant);
+        contract.sourceUrl = tag ? buildGitHubUrl(sourcePath, variant, tag) : undefined;
+      }
       contracts.push(...fileContracts);
     } catch (error) {
-      console.warn(`Warning: Failed to parse ${filePath}:`, error);
+      console.warn(`Warning: Failed to parse ${file}:`, error);
     }
   }
 
@@ -71,7 +124,13 @@ export async function parseSolidityFiles(contractsDir: string, version: string):
 }
 
 export async function parseSolidityFile(filePath: string, version: string): Promise<ContractInfo[]> {
-  const source = await fs.readFile(filePath, 'utf-8');
+  return parseSoliditySource(await fs.readFile(filePath, 'utf-8'), filePath, version);
+}
+
+/**
+ * Parse Solidity source text; `filePath` only feeds categories and source paths
+ */
+export function parseSoliditySource(source: string, filePath: string, version: string): ContractInfo[] {
   const contracts: ContractInfo[] = [];
 
   let ast: SourceUnit;
@@ -98,6 +157,11 @@ export async function parseSolidityFile(filePath: string, version: string): Prom
     },
   });
 
+  const fileScope = parseFileScope(ast, filePath, version, source, natspecMap);
+  if (fileScope) {
+    contracts.push(fileScope);
+  }
+
   return contracts;
 }
 
@@ -124,47 +188,148 @@ function parseContractDefinition(
       }
       return '';
     }).filter(Boolean),
+    sourcePath: getSourcePath(filePath),
+    startLine: node.loc?.start.line,
+    endLine: node.loc?.end.line,
+    natspecTitle: contractNatspec?.title,
     natspecNotice: contractNatspec?.notice,
-    sourceUrl: buildGitHubUrl(filePath, version),
+    customTags: contractNatspec?.custom,
     functions: [],
     events: [],
     errors: [],
     modifiers: [],
+    stateVariables: [],
+    structs: [],
+    enums: [],
+    userTypes: [],
+    usingFor: [],
   };
 
   // Parse members
   for (const subNode of node.subNodes) {
-    const memberNatspec = findNatSpecBefore(subNode.loc?.start?.line || 0, natspecMap);
-
-    if (subNode.type === 'FunctionDefinition') {
-      const funcInfo = parseFunctionDefinition(subNode, memberNatspec);
-      if (funcInfo) {
-        contract.functions.push(funcInfo);
-      }
-    } else if (subNode.type === 'EventDefinition') {
-      const eventInfo = parseEventDefinition(subNode as EventDefinition, memberNatspec);
-      if (eventInfo) {
-        contract.events.push(eventInfo);
-      }
-    } else if (subNode.type === 'ErrorDefinition') {
-      const errorInfo = parseErrorDefinition(subNode as ErrorDefinition, memberNatspec);
-      if (errorInfo) {
-        contract.errors.push(errorInfo);
-      }
-    } else if (subNode.type === 'ModifierDefinition') {
-      const modifierInfo = parseModifierDefinition(subNode as ModifierDefinition, memberNatspec);
-      if (modifierInfo) {
-        contract.modifiers.push(modifierInfo);
-      }
+    let memberNatspec = findNatSpecBefore(subNode.loc?.start?.line || 0, natspecMap);
+    // The first member sits right below the contract header; don't take the contract's docs
+    if (memberNatspec && memberNatspec === contractNatspec) {
+      memberNatspec = undefined;
     }
+    parseMember(subNode, contract, source, memberNatspec);
   }
 
   return contract;
 }
 
+/**
+ * Collect file-level declarations (free functions, errors, events, constants,
+ * types and global using-for directives) into a pseudo-container named after
+ * the source path. Returns null when the file declares nothing at file level.
+ */
+function parseFileScope(
+  ast: SourceUnit,
+  filePath: string,
+  version: string,
+  source: string,
+  natspecMap: Map<number, NatSpecComment>
+): ContractInfo | null {
+  const container: ContractInfo = {
+    name: getSourcePath(filePath),
+    type: 'file',
+    category: detectCategory(filePath),
+    version,
+    inheritance: [],
+    sourcePath: getSourcePath(filePath),
+    functions: [],
+    events: [],
+    errors: [],
+    modifiers: [],
+    stateVariables: [],
+    structs: [],
+    enums: [],
+    userTypes: [],
+    usingFor: [],
+  };
+
+  let memberCount = 0;
+  for (const child of ast.children) {
+    if (child.type === 'ContractDefinition' || child.type === 'PragmaDirective' || child.type === 'ImportDirective') {
+      continue;
+    }
+    const natspec = findNatSpecBefore(child.loc?.start?.line || 0, natspecMap);
+    if (parseMember(child, container, source, natspec, 'internal')) {
+      memberCount++;
+    }
+  }
+
+  return memberCount > 0 ? container : null;
+}
+
+function withSourceRange<T extends SourceRange>(info: T, node: BaseASTNode): T {
+  info.startLine = node.loc?.start.line;
+  info.endLine = node.loc?.end.line;
+  return info;
+}
+
+/**
+ * Parse a contract sub-node or file-level node into the matching list of the
+ * container. Returns false for node types that are not indexed.
+ */
+function parseMember(
+  subNode: BaseASTNode,
+  container: ContractInfo,
+  source: string,
+  natspec: NatSpecComment | undefined,
+  defaultVisibility: FunctionInfo['visibility'] = 'public'
+): boolean {
+  if (subNode.type === 'FunctionDefinition') {
+    const funcInfo = parseFunctionDefinition(subNode as FunctionDefinition, source, natspec, defaultVisibility);
+    if (funcInfo) {
+      container.functions.push(withSourceRange(funcInfo, subNode));
+    }
+  } else if (subNode.type === 'EventDefinition') {
+    const eventInfo = parseEventDefinition(subNode as EventDefinition, natspec);
+    if (eventInfo) {
+      container.events.push(withSourceRange(eventInfo, subNode));
+    }
+  } else if (subNode.type === 'CustomErrorDefinition') {
+    const errorInfo = parseErrorDefinition(subNode as CustomErrorDefinition, natspec);
+    if (errorInfo) {
+      container.errors.push(withSourceRange(errorInfo, subNode));
+    }
+  } else if (subNode.type === 'ModifierDefinition') {
+    const modifierInfo = parseModifierDefinition(subNode as ModifierDefinition, source, natspec);
+    if (modifierInfo) {
+      container.modifiers.push(withSourceRange(modifierInfo, subNode));
+    }
+  } else if (subNode.type === 'StateVariableDeclaration') {
+    for (const variableInfo of parseStateVariableDeclaration(subNode as StateVariableDeclaration, source, natspec)) {
+      container.stateVariables.push(withSourceRange(variableInfo, subNode));
+      // Public state variables also expose an auto-generated getter
+      if (variableInfo.visibility === 'public') {
+        const getter = buildGetterFunction(subNode as StateVariableDeclaration, variableInfo, natspec);
+        container.functions.push(withSourceRange(getter, subNode));
+      }
+    }
+  } else if (subNode.type === 'StructDefinition') {
+    container.structs.push(withSourceRange(parseStructDefinition(subNode as StructDefinition, natspec), subNode));
+  } else if (subNode.type === 'EnumDefinition') {
+    container.enums.push(withSourceRange(parseEnumDefinition(subNode as EnumDefinition, natspec), subNode));
+  } else if (subNode.type === 'TypeDefinition') {
+    container.userTypes.push(withSourceRange(parseTypeDefinition(subNode as TypeDefinition, natspec), subNode));
+  } else if (subNode.type === 'UsingForDeclaration') {
+    container.usingFor.push(withSourceRange(parseUsingForDeclaration(subNode as UsingForDeclaration), subNode));
+  } else if (subNode.type === 'FileLevelConstant') {
+    const constant = parseFileLevelConstant(subNode as FileLevelConstant, source, natspec);
+    container.stateVariables.push(withSourceRange(constant, subNode));
+  } else {
+    return false;
+  }
+  return true;
+}
+
 function parseFunctionDefinition(
   node: FunctionDefinition,
-  natspec?: NatSpecComment
+  source: string,
+  natspec?: NatSpecComment,
+  defaultVisibility: FunctionInfo['visibility'] = 'public'
 ): FunctionInfo | null {
   // Skip constructor, fallback, receive for now (or handle them specially)
   const name = node.name || (node.isConstructor ? 'constructor' : node.isFallback ? 'fallback' : node.isReceiveEther ? 'receive' : '');
@@ -182,20 +347,183 @@ function parseFunctionDefinition(
     description: natspec?.returns[param.name || `_${idx}`] || natspec?.returns[String(idx)],
   }));
 
-  const signature = buildFunctionSignature(name, params, returns, node);
+  // Free functions have no visibility keyword and are implicitly internal
+  const visibility = node.visibility && node.visibility !== 'default' ? node.visibility : defaultVisibility;
+  const signature = buildFunctionSignature(name, params, returns, node, visibility);
+
+  // Constructors list base constructor calls (e.g. `ERC20(name, symbol)`) alongside modifiers
+  const modifiers: ModifierInvocationInfo[] = (node.modifiers || [])
+    .filter(modifier => !(node.isConstructor && /^[A-Z]/.test(modifier.name)))
+    .map(modifier => ({
+      name: modifier.name,
+      arguments: (modifier.arguments || []).map(arg => sourceText(source, arg) || ''),
+    }));
 
   return {
     name,
     signature,
-    visibility: node.visibility || 'public',
+    visibility,
     mutability: node.stateMutability || '',
     params,
     returns,
+    modifiers,
+    ...analyzeBody(node.body, source),
+    isVirtual: node.isVirtual,
+    override: node.override ? node.override.map(base => base.namePath) : undefined,
     natspecNotice: natspec?.notice,
     natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+    inheritdoc: natspec?.inheritdoc,
   };
 }
 
+/**
+ * Collect the function calls, event emissions and reverts of a body. Type
+ * conversions, struct constructors and Solidity builtins are not calls;
+ * require(cond, reason) and revert(reason) count as reverts, with the
+ * condition when it compares the caller (`if (msg.sender != x) revert ...`).
+ */
+function analyzeBody(
+  body: BaseASTNode | null,
+  source: string
+): { calls: CallInfo[]; emits: RaiseSite[]; reverts: RaiseSite[] } {
+  const calls: CallInfo[] = [];
+  const emits: RaiseSite[] = [];
+  const reverts: RaiseSite[] = [];
+  if (!body) return { calls, emits, reverts };
+
+  const skipped = new Set<BaseASTNode>();
+  // Locals holding the caller (`address sender = _msgSender();`)
+  const callerAliases = new Set<string>();
+  // Reverts under an `if` comparing the caller, with the condition
+  const callerChecks = new Map<BaseASTNode, string>();
+
+  visit(body, {
+    VariableDeclarationStatement: (node: VariableDeclarationStatement) => {
+      const [variable] = node.variables as Array<VariableDeclaration | null>;
+      if (node.variables.length === 1 && variable?.name && node.initialValue && isCaller(node.initialValue, callerAliases)) {
+        callerAliases.add(variable.name);
+      }
+    },
+  });
+
+  visit(body, {
+    IfStatement: (node: IfStatement) => {
+      const check = callerCheck(node.condition, source, callerAliases);
+      if (!check) return;
+      visit(node.trueBody, {
+        RevertStatement: (revert: RevertStatement) => {
+          callerChecks.set(revert.revertCall, check);
+        },
+        FunctionCall: (call: FunctionCall) => {
+          if (call.expression.type === 'Identifier' && call.expression.name === 'revert') callerChecks.set(call, check);
+        },
+      });
+    },
+    EmitStatement: (node: EmitStatement) => {
+      skipped.add(node.eventCall);
+      emits.push(toRaiseSite(node.eventCall, source));
+    },
+    RevertStatement: (node: RevertStatement) => {
+      skipped.add(node.revertCall);
+      reverts.push({ ...toRaiseSite(node.revertCall, source), callerCheck: callerChecks.get(node.revertCall) });
+    },
+  });
+
+  visit(body, {
+    FunctionCall: (node: FunctionCall) => {
+      if (skipped.has(node)) return;
+
+      if (node.expression.type === 'Identifier' && (node.expression.name === 'require' || node.expression.name === 'revert')) {
+        const isRequire = node.expression.name === 'require';
+        const reason = node.arguments[isRequire ? 1 : 0];
+        const check = isRequire ? callerCheck(node.arguments[0], source, callerAliases) : callerChecks.get(node);
+        if (reason?.type === 'FunctionCall') {
+          // require(cond, CustomError(...)) since 0.8.26
+          skipped.add(reason);
+          reverts.push({ ...toRaiseSite(reason, source), callerCheck: check });
+        } else if (reason) {
+          reverts.push({
+            name: 'Error',
+            message: reason.type === 'StringLiteral' ? reason.value : sourceText(source, reason),
+            callerCheck: check,
+            line: node.loc?.start.line,
+          });
+        }
+        return;
+      }
+
+      // Unwrap `target.call{value: v}(...)`
+      let callee = node.expression;
+      if (callee.type === 'NameValueExpression') {
+        callee = callee.expression;
+      }
+
+      const call: Omit<CallInfo, 'name' | 'kind'> = {
+        argumentCount: node.arguments.length,
+        line: node.loc?.start.line,
+      };
+
+      if (callee.type === 'Identifier') {
+        // Capitalized names are type conversions, struct constructors or custom errors
+        if (BUILTIN_FUNCTIONS.has(callee.name) || /^[A-Z]/.test(callee.name)) return;
+        calls.push({ name: callee.name, kind: 'internal', ...call });
+      } else if (callee.type === 'MemberAccess') {
+        const receiver = callee.expression;
+        if (receiver.type === 'Identifier' && receiver.name === 'super') {
+          calls.push({ name: callee.memberName, kind: 'super', ...call });
+        } else if (receiver.type === 'Identifier' && receiver.name === 'this') {
+          calls.push({ name: callee.memberName, kind: 'this', ...call });
+        } else if (receiver.type === 'Identifier' && BUILTIN_NAMESPACES.has(receiver.name)) {
+          return;
+        } else if (!BUILTIN_MEMBERS.has(callee.memberName)) {
+          calls.push({ name: callee.memberName, kind: 'member', qualifier: sourceText(source, receiver), ...call });
+        }
+      }
+    },
+  });
+
+  return { calls, emits, reverts };
+}
+
+/**
+ * Source of a condition comparing `msg.sender`, `_msgSender()` or a local
+ * holding either with `==` or `!=`, undefined for conditions that do not
+ * check the caller
+ */
+function callerCheck(condition: BaseASTNode | undefined, source: string, aliases: Set<string>): string | undefined {
+  let found = false;
+  if (condition) {
+    visit(condition, {
+      BinaryOperation: (node: BinaryOperation) => {
+        if ((node.operator === '==' || node.operator === '!=') && (isCaller(node.left, aliases) || isCaller(node.right, aliases))) {
+          found = true;
+        }
+      },
+    });
+  }
+  return found ? sourceText(source, condition!) : undefined;
+}
+
+function isCaller(node: Expression, aliases: Set<string>): boolean {
+  if (node.type === 'Identifier') return aliases.has(node.name);
+  if (node.type === 'MemberAccess') {
+    return node.memberName === 'sender' && node.expression.type === 'Identifier' && node.expression.name === 'msg';
+  }
+  return node.type === 'FunctionCall' && node.expression.type === 'Identifier' && node.expression.name === '_msgSender';
+}
+
+/**
+ * Event or error named by the call of an emit or revert
+ */
+function toRaiseSite(call: FunctionCall, source: string): RaiseSite {
+  const callee = call.expression;
+  const site: RaiseSite = callee.type === 'MemberAccess'
+    ? { name: callee.memberName, qualifier: sourceText(source, callee.expression) }
+    : { name: callee.type === 'Identifier' ? callee.name : sourceText(source, callee) || '' };
+  return { ...site, line: call.loc?.start.line };
+}
+
 function parseEventDefinition(
   node: EventDefinition,
   natspec?: NatSpecComment
@@ -203,22 +531,25 @@ function parseEventDefinition(
   const params: ParamInfo[] = (node.parameters || []).map(param => ({
     name: param.name || '',
     type: typeNameToString(param.typeName),
+    indexed: param.isIndexed,
     description: natspec?.params[param.name || ''],
   }));
 
-  const signature = `event ${node.name}(${params.map(p => `${p.type}${p.name ? ' ' + p.name : ''}`).join(', ')})`;
+  const signature = `event ${node.name}(${params.map(p => `${p.type}${p.indexed ? ' indexed' : ''}${p.name ? ' ' + p.name : ''}`).join(', ')})`;
 
   return {
     name: node.name,
     signature,
     params,
+    isAnonymous: node.isAnonymous,
     natspecNotice: natspec?.notice,
     natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
   };
 }
 
 function parseErrorDefinition(
-  node: ErrorDefinition,
+  node: CustomErrorDefinition,
   natspec?: NatSpecComment
 ): ErrorInfo {
   const params: ParamInfo[] = (node.parameters || []).map(param => ({
@@ -235,11 +566,13 @@ function parseErrorDefinition(
     params,
     natspecNotice: natspec?.notice,
     natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
   };
 }
 
 function parseModifierDefinition(
   node: ModifierDefinition,
+  source: string,
   natspec?: NatSpecComment
 ): ModifierInfo {
   const params: ParamInfo[] = (node.parameters || []).map(param => ({
@@ -254,11 +587,179 @@ function parseModifierDefinition(
     name: node.name || '',
     signature,
     params,
+    ...analyzeBody(node.body, source),
     natspecNotice: natspec?.notice,
     natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
   };
 }
 
+function parseStateVariableDeclaration(
+  node: StateVariableDeclaration,
+  source: string,
+  natspec?: NatSpecComment
+): StateVariableInfo[] {
+  return node.variables.map(variable => {
+    const name = variable.name || '';
+    const type = typeNameToString(variable.typeName);
+    const visibility = variable.visibility === 'public' || variable.visibility === 'private'
+      ? variable.visibility
+      : 'internal';
+    const mutability = variable.isDeclaredConst ? 'constant' : variable.isImmutable ? 'immutable' : '';
+    const initialValue = variable.expression || node.initialValue;
+
+    return {
+      name,
+      signature: `${type} ${visibility}${mutability ? ' ' + mutability : ''} ${name}`,
+      type,
+      visibility,
+      mutability,
+      value: initialValue ? sourceText(source, initialValue) : undefined,
+      natspecNotice: natspec?.notice,
+      natspecDev: natspec?.dev,
+      customTags: natspec?.custom,
+    };
+  });
+}
+
+/**
+ * Build the getter solc generates for a public state variable: mapping keys and
+ * array indexes become parameters, the innermost value type is returned
+ * (struct values are expanded to their members by expandStructGetters).
+ */
+function buildGetterFunction(
+  node: StateVariableDeclaration,
+  variable: StateVariableInfo,
+  natspec?: NatSpecComment
+): FunctionInfo {
+  const params: ParamInfo[] = [];
+  const declaration = node.variables.find(v => v.name === variable.name);
+  let typeName: TypeName | null = declaration?.typeName || null;
+
+  while (typeName) {
+    if (typeName.type === 'Mapping') {
+      params.push({ name: typeName.keyName?.name || '', type: typeNameToString(typeName.keyType) });
+      typeName = typeName.valueType;
+    } else if (typeName.type === 'ArrayTypeName') {
+      params.push({ name: '', type: 'uint256' });
+      typeName = typeName.baseTypeName;
+    } else {
+      break;
+    }
+  }
+
+  const returns: ReturnInfo[] = [{
+    type: typeNameToString(typeName),
+    description: Object.values(natspec?.returns || {})[0],
+  }];
+  const paramsStr = params.map(p => `${p.type}${p.name ? ' ' + p.name : ''}`).join(', ');
+
+  return {
+    name: variable.name,
+    signature: `function ${variable.name}(${paramsStr}) external view returns (${returns[0].type})`,
+    visibility: 'external',
+    mutability: 'view',
+    params,
+    returns,
+    modifiers: [],
+    isVirtual: false,
+    override: declaration?.override ? declaration.override.map(base => base.namePath) : undefined,
+    natspecNotice: natspec?.notice,
+    natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+    inheritdoc: natspec?.inheritdoc,
+  };
+}
+
+function parseFileLevelConstant(
+  node: FileLevelConstant,
+  source: string,
+  natspec?: NatSpecComment
+): StateVariableInfo {
+  const type = typeNameToString(node.typeName);
+
+  return {
+    name: node.name,
+    signature: `${type} constant ${node.name}`,
+    type,
+    visibility: 'internal',
+    mutability: 'constant',
+    value: sourceText(source, node.initialValue),
+    natspecNotice: natspec?.notice,
+    natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+  };
+}
+
+function parseStructDefinition(
+  node: StructDefinition,
+  natspec?: NatSpecComment
+): StructInfo {
+  const fields: ParamInfo[] = node.members.map(member => ({
+    name: member.name || '',
+    type: typeNameToString(member.typeName),
+    description: natspec?.params[member.name || ''],
+  }));
+
+  return {
+    name: node.name,
+    signature: `struct ${node.name} { ${fields.map(f => `${f.type} ${f.name};`).join(' ')} }`,
+    fields,
+    natspecNotice: natspec?.notice,
+    natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+  };
+}
+
+function parseEnumDefinition(
+  node: EnumDefinition,
+  natspec?: NatSpecComment
+): EnumInfo {
+  const values = node.members.map(member => member.name);
+
+  return {
+    name: node.name,
+    signature: `enum ${node.name} { ${values.join(', ')} }`,
+    values,
+    natspecNotice: natspec?.notice,
+    natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+  };
+}
+
+function parseTypeDefinition(
+  node: TypeDefinition,
+  natspec?: NatSpecComment
+): UserDefinedTypeInfo {
+  return {
+    name: node.name,
+    signature: `type ${node.name} is ${node.definition.name}`,
+    underlyingType: node.definition.name,
+    natspecNotice: natspec?.notice,
+    natspecDev: natspec?.dev,
+    customTags: natspec?.custom,
+  };
+}
+
+function parseUsingForDeclaration(node: UsingForDeclaration): UsingForInfo {
+  const library = node.libraryName || `{${node.functions.map((fn, i) =>
+    node.operators[i] ? `${fn} as ${node.operators[i]}` : fn
+  ).join(', ')}}`;
+  const target = node.typeName ? typeNameToString(node.typeName) : '*';
+
+  return {
+    library,
+    target,
+    signature: `using ${library} for ${target}${node.isGlobal ? ' global' : ''}`,
+    isGlobal: node.isGlobal,
+  };
+}
+
+function sourceText(source: string, node: { range?: [number, number] }): string | undefined {
+  if (!node.range) return undefined;
+  return source.slice(node.range[0], node.range[1] + 1);
+}
+
 function extractNatSpecComments(source: string): Map<number, NatSpecComment> {
   const map = new Map<number, NatSpecComment>();
   const lines = source.split('\n');
@@ -312,6 +813,9 @@ function extractNatSpecComments(source: string): Map<number, NatSpecComment> {
             if (newNatspec.dev) prevNatspec.dev = (prevNatspec.dev || '') + ' ' + newNatspec.dev;
             Object.assign(prevNatspec.params, newNatspec.params);
             Object.assign(prevNatspec.returns, newNatspec.returns);
+            if (newNatspec.inheritdoc) prevNatspec.inheritdoc = newNatspec.inheritdoc;
+            if (newNatspec.title) prevNatspec.title = (prevNatspec.title ? prevNatspec.title + ' ' : '') + newNatspec.title;
+            mergeCustomTags(prevNatspec.custom, newNatspec.custom);
           }
         }
       } else {
@@ -331,15 +835,31 @@ function parseNatSpecContent(content: string): NatSpecComment | null {
   const natspec: NatSpecComment = {
     params: {},
     returns: {},
+    custom: {},
   };
 
   const lines = content.split('\n').map(l => l.trim()).filter(l => l);
 
   let currentTag = '';
   let currentContent = '';
+  let customKey = '';
 
   for (const line of lines) {
-    if (line.startsWith('@notice')) {
+    if (line.startsWith('@title')) {
+      natspec.title = line.slice(6).trim();
+      currentTag = 'title';
+      currentContent = '';
+    } else if (line.startsWith('@custom:')) {
+      const match = line.match(/^@custom:([a-z][a-z0-9-]*)\s*(.*)/);
+      if (match) {
+        customKey = match[1];
+        mergeCustomTags(natspec.custom, { [customKey]: match[2].trim() });
+        currentTag = 'custom';
+      } else {
+        currentTag = '';
+      }
+      currentContent = '';
+    } else if (line.startsWith('@notice')) {
       if (currentTag === 'notice') natspec.notice = (natspec.notice || '') + ' ' + currentContent;
       currentTag = 'notice';
       currentContent = line.slice(7).trim();
@@ -370,6 +890,10 @@ function parseNatSpecContent(content: string): NatSpecComment | null {
       // Other tags, ignore for now
       currentTag = '';
       currentContent = '';
+    } else if (currentTag === 'title') {
+      natspec.title += ' ' + line;
+    } else if (currentTag === 'custom') {
+      natspec.custom[customKey] = `${natspec.custom[customKey]} ${line}`.trim();
     } else if (currentTag && !line.startsWith('@')) {
       // Continue current content
       currentContent += ' ' + line;
@@ -391,11 +915,23 @@ function parseNatSpecContent(content: string): NatSpecComment | null {
          Object.keys(natspec.returns).length > 0 ||
          natspec.notice ||
          natspec.dev ||
-         natspec.inheritdoc
+         natspec.inheritdoc ||
+         natspec.title ||
+         Object.keys(natspec.custom).length > 0
     ? natspec
     : null;
 }
 
+/**
+ * Add custom tags to `target`; a tag repeated in one comment keeps every value,
+ * one per line.
+ */
+function mergeCustomTags(target: CustomTags, tags: CustomTags): void {
+  for (const [key, value] of Object.entries(tags)) {
+    target[key] = key in target ? `${target[key]}\n${value}` : value;
+  }
+}
+
 function findNatSpecBefore(line: number, natspecMap: Map<number, NatSpecComment>): NatSpecComment | undefined {
   // Look for NatSpec on this line or the line before
   return natspecMap.get(line) || natspecMap.get(line - 1);
@@ -418,7 +954,7 @@ function typeNameToString(typeName: TypeName | null): string {
       return typeName.namePath;
     case 'ArrayTypeName':
       const baseType = typeNameToString(typeName.baseTypeName);
-      const length = typeName.length ? `[${typeName.length}]` : '[]';
+      const length = typeName.length?.type === 'NumberLiteral' ? `[${typeName.length.number}]` : '[]';
       return baseType + length;
     case 'Mapping':
       const keyType = typeNameToString(typeName.keyType);
@@ -435,13 +971,15 @@ function buildFunctionSignature(
   name: string,
   params: ParamInfo[],
   returns: ReturnInfo[],
-  node: FunctionDefinition
+  node: FunctionDefinition,
+  visibility: FunctionInfo['visibility']
 ): string {
   const paramsStr = params.map(p => `${p.type}${p.name ? ' ' + p.name : ''}`).join(', ');
-  const visibility = node.visibility || 'public';
   const mutability = node.stateMutability ? ' ' + node.stateMutability : '';
 
-  let sig = `function ${name}(${paramsStr})`;
+  // Constructors, fallback and receive functions are declared without the `function` keyword
+  const keyword = node.isConstructor || node.isFallback || node.isReceiveEther ? '' : 'function ';
+  let sig = `${keyword}${name}(${paramsStr})`;
   sig += ` ${visibility}`;
   if (mutability) sig += mutability;
 
@@ -462,12 +1000,15 @@ function detectCategory(filePath: string): string {
   return 'general';
 }
 
-function buildGitHubUrl(filePath: string, version: string): string {
-  // Extract relative path from contracts directory
-  const match = filePath.match(/contracts-v\d+\/(contracts\/.+\.sol)$/);
-  if (match) {
-    const tag = version === '5.x' ? 'v5.3.0' : 'v4.9.6';
-    return `https://github.com/OpenZeppelin/openzeppelin-contracts/blob/${tag}/${match[1]}`;
-  }
-  return '';
+/**
+ * Path of the file within the contracts repository, e.g. 'contracts/utils/ShortStrings.sol'
+ */
+function getSourcePath(filePath: string): string {
+  const match = filePath.match(/(?:^|\/)(contracts\/.+\.sol)$/);
+  return match ? match[1] : path.basename(filePath);
+}
+
+function buildGitHubUrl(sourcePath: string, variant: ContractVariant, tag: string): string {
+  const repository = variant === 'upgradeable' ? 'openzeppelin-contracts-upgradeable' : 'openzeppelin-contracts';
+  return `https://github.com/OpenZeppelin/${repository}/blob/${tag}/${sourcePath}`;
 }
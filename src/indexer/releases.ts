@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import type { ContractVariant } from '../types.js';
+
+// Products the indexer knows how to fetch and parse
+export const PRODUCTS = [
+  'contracts',
+  'contracts-cairo',
+  'contracts-stylus',
+  'community-contracts',
+  'upgrades-plugins',
+] as const;
+export type Product = typeof PRODUCTS[number];
+
+export interface ProductInfo {
+  title: string;
+  language?: 'solidity' | 'cairo'; // Language of the indexed sources; documentation-only products have none
+  repositories: Partial<Record<ContractVariant, string>>; // Cloned at the tag of every release
+  docs: string; // Directory under content/ of the docs repository, and path on docs.openzeppelin.com
+}
+
+export const PRODUCT_INFO: Record<Product, ProductInfo> = {
+  'contracts': {
+    title: 'OpenZeppelin Contracts',
+    language: 'solidity',
+    repositories: {
+      standard: 'https://github.com/OpenZeppelin/openzeppelin-contracts.git',
+      upgradeable: 'https://github.com/OpenZeppelin/openzeppelin-contracts-upgradeable.git',
+    },
+    docs: 'contracts',
+  },
+  'contracts-cairo': {
+    title: 'OpenZeppelin Contracts for Cairo',
+    language: 'cairo',
+    repositories: { standard: 'https://github.com/OpenZeppelin/cairo-contracts.git' },
+    docs: 'contracts-cairo',
+  },
+  'contracts-stylus': {
+    title: 'OpenZeppelin Contracts for Stylus',
+    repositories: {},
+    docs: 'contracts-stylus',
+  },
+  'community-contracts': {
+    title: 'OpenZeppelin Community Contracts',
+    repositories: {},
+    docs: 'community-contracts',
+  },
+  'upgrades-plugins': {
+    title: 'OpenZeppelin Upgrades Plugins',
+    repositories: {},
+    docs: 'upgrades-plugins',
+  },
+};
+
+// Release of documentation-only products listed without a tag
+export const UNVERSIONED_RELEASE = 'latest';
+
+/**
+ * Entry of the release manifest (releases.json)
+ */
+export interface ReleaseEntry {
+  product: string;
+  tag?: string; // Git tag, e.g. 'v5.1.0'; optional for documentation-only products
+  label?: string; // Extra name the release can be asked for by, e.g. 'lts'
+}
+
+export interface Release {
+  product: Product;
+  tag: string;
+  release: string; // '5.1.0'
+  series: string; // '5.x'
+  label?: string;
+}
+
+/**
+ * Where the files of a release are read from. For Contracts, `standard` and
+ * `upgradeable` hold what the repositories have under contracts/ (a
+ * checkout's contracts/ directory, or an npm package); for Contracts for
+ * Cairo, `standard` is the checkout. A variant without sources is not indexed.
+ */
+export interface ReleaseSources {
+  standard?: string;
+  upgradeable?: string;
+  changelog?: string; // CHANGELOG.md, if any
+  docs?: string; // AsciiDoc pages of the checkout (docs/modules/ROOT/pages), if any
+}
+
+// Antora pages of a checkout, for releases documented in AsciiDoc
+export const ASCIIDOC_PAGES = 'docs/modules/ROOT/pages';
+
+export const TAG_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(-[\w.]+)?$/;
+
+/**
+ * Read and validate the release manifest. Duplicate releases are dropped.
+ */
+export async function loadReleaseManifest(manifestPath: string): Promise<Release[]> {
+  const entries: unknown = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`Release manifest ${manifestPath} must be a JSON array of {product, tag, label} entries`);
+  }
+
+  const releases: Release[] = [];
+  for (const entry of entries as ReleaseEntry[]) {
+    const release = toRelease(entry);
+    if (!releases.some(r => r.product === release.product && r.release === release.release)) {
+      releases.push(release);
+    }
+  }
+  return sortReleases(releases);
+}
+
+/**
+ * Order by product (as listed in PRODUCTS), then newest release first
+ */
+export function sortReleases(releases: Release[]): Release[] {
+  return releases.sort((a, b) =>
+    a.product === b.product
+      ? compareReleases(b, a)
+      : PRODUCTS.indexOf(a.product) - PRODUCTS.indexOf(b.product)
+  );
+}
+
+export function toRelease(entry: ReleaseEntry): Release {
+  if (!PRODUCTS.includes(entry.product as Product)) {
+    throw new Error(`Unknown product '${entry.product}' in release manifest (expected one of: ${PRODUCTS.join(', ')})`);
+  }
+  const product = entry.product as Product;
+  if (!entry.tag && !PRODUCT_INFO[product].language) {
+    return { product, tag: UNVERSIONED_RELEASE, release: UNVERSIONED_RELEASE, series: UNVERSIONED_RELEASE, label: entry.label };
+  }
+
+  const tag = entry.tag ?? '';
+  const match = tag.match(TAG_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid release tag '${tag}' in release manifest (expected e.g. 'v5.1.0')`);
+  }
+
+  return {
+    product,
+    tag: tag.startsWith('v') ? tag : `v${tag}`,
+    release: tag.replace(/^v/, ''),
+    series: `${match[1]}.x`,
+    label: entry.label,
+  };
+}
+
+/**
+ * Order by semantic version; prereleases sort before their release, and the
+ * unversioned release after every other
+ */
+export function compareReleases(a: { release: string }, b: { release: string }): number {
+  if (a.release === b.release) return 0;
+  if (a.release === UNVERSIONED_RELEASE) return 1;
+  if (b.release === UNVERSIONED_RELEASE) return -1;
+
+  const [aCore, aPre = ''] = a.release.split('-', 2);
+  const [bCore, bPre = ''] = b.release.split('-', 2);
+  const aParts = aCore.split('.').map(Number);
+  const bParts = bCore.split('.').map(Number);
+
+  for (let i = 0; i < 3; i++) {
+    if (aParts[i] !== bParts[i]) return aParts[i] - bParts[i];
+  }
+  if (aPre === bPre) return 0;
+  if (!aPre) return 1;
+  if (!bPre) return -1;
+  return aPre.localeCompare(bPre, undefined, { numeric: true });
+}
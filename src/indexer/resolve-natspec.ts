@@ -0,0 +1,153 @@
+import type { ContractInfo, FunctionInfo } from '../types.js';
+
+// OZ documents most overrides with "See {IERC20-transfer}." instead of @inheritdoc
+const SEE_REFERENCE_PATTERN = /^See \{(\w+)-(\w+)\}\.?\s*/;
+
+/**
+ * Resolve @inheritdoc (and undocumented overrides) by copying NatSpec from the
+ * base contract that documents the member. Contracts are matched by name within
+ * the given list, which should hold a single version. Only missing tags are
+ * filled in, mirroring solc's behaviour. Returns the number of members updated.
+ */
+export function resolveInheritedNatSpec(contracts: ContractInfo[]): number {
+  const byName = new Map<string, ContractInfo>();
+  for (const contract of contracts) {
+    if (!byName.has(contract.name)) {
+      byName.set(contract.name, contract);
+    }
+  }
+
+  const done = new Set<string>();
+  let resolved = 0;
+
+  // Bases are resolved before the contracts that reference them, so copied
+  // text always comes from an already-resolved declaration
+  const resolveContract = (contract: ContractInfo): void => {
+    if (done.has(contract.name)) return;
+    done.add(contract.name);
+
+    for (const func of contract.functions) {
+      const target = findDocTarget(func);
+      if (!target && hasNatSpec(func)) continue;
+
+      const bases = target ? [target.contract] : contract.inheritance;
+      const source = findDocumentedBase(func, bases, byName, new Set([contract.name]), resolveContract);
+      if (!source) continue;
+
+      // Replace the "See {...}" pointer with the referenced text, keeping any extra notes
+      const originalDev = func.natspecDev;
+      if (target?.remainingDev !== undefined) {
+        func.natspecDev = undefined;
+      }
+
+      if (!copyMissingNatSpec(func, source.func)) {
+        func.natspecDev = originalDev;
+        continue;
+      }
+
+      if (target?.remainingDev) {
+        func.natspecDev = func.natspecDev
+          ? `${func.natspecDev}\n\n${target.remainingDev}`
+          : target.remainingDev;
+      }
+      func.natspecSource = source.func.natspecSource || `${source.contract}.${source.func.name}`;
+      resolved++;
+    }
+  };
+
+  for (const contract of contracts) {
+    resolveContract(contract);
+  }
+
+  return resolved;
+}
+
+function findDocTarget(func: FunctionInfo): { contract: string; remainingDev?: string } | undefined {
+  if (func.inheritdoc) return { contract: func.inheritdoc };
+
+  const match = func.natspecDev?.match(SEE_REFERENCE_PATTERN);
+  if (match && match[2] === func.name) {
+    return {
+      contract: match[1],
+      remainingDev: func.natspecDev!.slice(match[0].length).trim(),
+    };
+  }
+  return undefined;
+}
+
+function hasNatSpec(func: FunctionInfo): boolean {
+  return Boolean(
+    func.natspecNotice ||
+    func.natspecDev ||
+    func.params.some(p => p.description) ||
+    func.returns.some(r => r.description)
+  );
+}
+
+/**
+ * Walk the named bases (depth-first, in declaration order) looking for a
+ * function with the same name and parameter types that carries NatSpec.
+ */
+function findDocumentedBase(
+  func: FunctionInfo,
+  bases: string[],
+  byName: Map<string, ContractInfo>,
+  visited: Set<string>,
+  resolveContract: (contract: ContractInfo) => void
+): { contract: string; func: FunctionInfo } | undefined {
+  for (const baseName of bases) {
+    if (visited.has(baseName)) continue;
+    visited.add(baseName);
+
+    const base = byName.get(baseName);
+    if (!base) continue;
+    resolveContract(base);
+
+    const match = base.functions.find(f => sameSignature(f, func));
+    if (match && hasNatSpec(match)) {
+      return { contract: base.name, func: match };
+    }
+
+    const found = findDocumentedBase(func, base.inheritance, byName, visited, resolveContract);
+    if (found) return found;
+  }
+
+  return undefined;
+}
+
+function sameSignature(a: FunctionInfo, b: FunctionInfo): boolean {
+  return a.name === b.name &&
+    a.params.length === b.params.length &&
+    a.params.every((p, i) => p.type === b.params[i].type);
+}
+
+function copyMissingNatSpec(target: FunctionInfo, source: FunctionInfo): boolean {
+  let changed = false;
+
+  if (!target.natspecNotice && source.natspecNotice) {
+    target.natspecNotice = source.natspecNotice;
+    changed = true;
+  }
+  if (!target.natspecDev && source.natspecDev) {
+    target.natspecDev = source.natspecDev;
+    changed = true;
+  }
+
+  target.params.forEach((param, i) => {
+    const description = source.params[i]?.description;
+    if (!param.description && description) {
+      param.description = description;
+      changed = true;
+    }
+  });
+
+  target.returns.forEach((ret, i) => {
+    const description = source.returns[i]?.description;
+    if (!ret.description && description) {
+      ret.description = description;
+      changed = true;
+    }
+  });
+
+  return changed;
+}
@@ -0,0 +1,61 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ContractInfo } from '../types.js';
+import { buildTypeIndex, buildCanonicalSignature } from './abi.js';
+
+/**
+ * Compute canonical signatures, 4-byte selectors (functions, errors) and
+ * topic0 (events) for every member of the given contracts, which should hold a
+ * single version. Internal and private functions have no selector.
+ * Returns the number of members that received a selector.
+ */
+export function computeSelectors(contracts: ContractInfo[]): number {
+  const index = buildTypeIndex(contracts);
+  let computed = 0;
+
+  for (const contract of contracts) {
+    for (const func of contract.functions) {
+      if (func.visibility !== 'public' && func.visibility !== 'external') continue;
+      if (['constructor', 'fallback', 'receive'].includes(func.name)) continue;
+
+      func.canonicalSignature = buildCanonicalSignature(index, func.name, func.params, contract);
+      if (func.canonicalSignature) {
+        func.selector = computeSelector(func.canonicalSignature);
+        computed++;
+      }
+    }
+
+    for (const error of contract.errors) {
+      error.canonicalSignature = buildCanonicalSignature(index, error.name, error.params, contract);
+      if (error.canonicalSignature) {
+        error.selector = computeSelector(error.canonicalSignature);
+        computed++;
+      }
+    }
+
+    for (const event of contract.events) {
+      event.canonicalSignature = buildCanonicalSignature(index, event.name, event.params, contract);
+      // Anonymous events have no topic0
+      if (event.canonicalSignature && !event.isAnonymous) {
+        event.selector = computeTopic(event.canonicalSignature);
+        computed++;
+      }
+    }
+  }
+
+  return computed;
+}
+
+/**
+ * 4-byte selector of a canonical signature, e.g. '0xa9059cbb'
+ */
+export function computeSelector(canonicalSignature: string): string {
+  return computeTopic(canonicalSignature).slice(0, 10);
+}
+
+/**
+ * Full keccak256 hash of a canonical signature, as used for event topic0
+ */
+export function computeTopic(canonicalSignature: string): string {
+  return '0x' + bytesToHex(keccak_256(canonicalSignature));
+}
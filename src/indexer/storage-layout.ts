@@ -0,0 +1,199 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { ContractInfo, StructInfo, ParamInfo, StorageLayoutInfo, StorageFieldInfo } from '../types.js';
+import { buildTypeIndex, findDefinition, type TypeIndex } from './abi.js';
+
+const ERC7201_PREFIX = 'erc7201:';
+const MAPPING_PATTERN = /^mapping\s*\(/;
+const ARRAY_SUFFIX_PATTERN = /^(.+)\[(\d*)\]$/;
+const HEX_LITERAL_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+// Bytes taken by a type in storage; `slots` is set for types that always
+// occupy whole slots (structs and static arrays) and is 0 for packable types
+interface StorageSize {
+  bytes: number;
+  slots: number;
+}
+
+interface PackedField {
+  name: string;
+  type: string;
+  slotIndex: number;
+  offset: number;
+  bytes: number;
+}
+
+/**
+ * Compute the ERC-7201 base slot and field layout of every struct annotated
+ * with `@custom:storage-location erc7201:<namespace>`. Contracts should hold a
+ * single version. Returns the number of layouts computed.
+ */
+export function computeStorageLayouts(contracts: ContractInfo[]): number {
+  const index = buildTypeIndex(contracts);
+  let computed = 0;
+
+  for (const contract of contracts) {
+    for (const struct of contract.structs) {
+      const location = struct.customTags?.['storage-location'];
+      if (!location?.startsWith(ERC7201_PREFIX)) continue;
+
+      const namespace = location.slice(ERC7201_PREFIX.length).trim();
+      const slot = computeErc7201Slot(namespace);
+      const base = BigInt(slot);
+
+      struct.storageLayout = {
+        namespace,
+        slot,
+        slotConstant: findSlotConstant(contract, struct, slot),
+        fields: packFields(index, struct.fields, contract).fields.map((field): StorageFieldInfo => ({
+          name: field.name,
+          type: field.type,
+          slot: toSlot(base + BigInt(field.slotIndex)),
+          offset: field.offset,
+          bytes: field.bytes,
+        })),
+      };
+      computed++;
+    }
+  }
+
+  return computed;
+}
+
+/**
+ * ERC-7201 formula: keccak256(abi.encode(uint256(keccak256(id)) - 1)) & ~bytes32(uint256(0xff))
+ */
+export function computeErc7201Slot(namespace: string): string {
+  const inner = BigInt('0x' + bytesToHex(keccak_256(namespace))) - 1n;
+  const outer = BigInt('0x' + bytesToHex(keccak_256(hexToBytes(toWord(inner)))));
+  return toSlot(outer & ~0xffn);
+}
+
+function toWord(value: bigint): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+function toSlot(value: bigint): string {
+  return '0x' + toWord(value);
+}
+
+/**
+ * OZ stores the slot in a `bytes32 private constant <Struct>Location`; compare
+ * it (or any bytes32 constant holding the computed slot) with our value.
+ */
+function findSlotConstant(
+  contract: ContractInfo,
+  struct: StructInfo,
+  slot: string
+): StorageLayoutInfo['slotConstant'] {
+  const candidates = contract.stateVariables.filter(v =>
+    v.mutability === 'constant' && v.type === 'bytes32' && v.value && HEX_LITERAL_PATTERN.test(v.value)
+  );
+  const constant = candidates.find(v => v.name === `${struct.name}Location`) ||
+    candidates.find(v => BigInt(v.value!) === BigInt(slot));
+  if (!constant) return undefined;
+
+  return {
+    name: constant.name,
+    value: constant.value!,
+    matches: BigInt(constant.value!) === BigInt(slot),
+  };
+}
+
+/**
+ * Assign slots and offsets following solc's packing rules: value types share a
+ * slot while they fit, structs and static arrays start a new slot and the item
+ * after them does too.
+ */
+function packFields(
+  index: TypeIndex,
+  fields: ParamInfo[],
+  context: ContractInfo
+): { fields: PackedField[]; slots: number } {
+  const packed: PackedField[] = [];
+  let slotIndex = 0;
+  let offset = 0;
+
+  for (const field of fields) {
+    const size = storageSize(index, field.type, context);
+
+    if (size.slots > 0) {
+      if (offset > 0) {
+        slotIndex++;
+        offset = 0;
+      }
+      packed.push({ name: field.name, type: field.type, slotIndex, offset: 0, bytes: size.bytes });
+      slotIndex += size.slots;
+      continue;
+    }
+
+    if (offset + size.bytes > 32) {
+      slotIndex++;
+      offset = 0;
+    }
+    packed.push({ name: field.name, type: field.type, slotIndex, offset, bytes: size.bytes });
+    offset += size.bytes;
+  }
+
+  return { fields: packed, slots: slotIndex + (offset > 0 ? 1 : 0) };
+}
+
+function storageSize(index: TypeIndex, typeName: string, context: ContractInfo): StorageSize {
+  // Mappings, dynamic arrays, string and bytes keep a full 32-byte slot in place
+  if (MAPPING_PATTERN.test(typeName)) {
+    return { bytes: 32, slots: 0 };
+  }
+
+  const array = typeName.match(ARRAY_SUFFIX_PATTERN);
+  if (array) {
+    if (!array[2]) return { bytes: 32, slots: 0 };
+
+    const length = Number(array[2]);
+    const element = storageSize(index, array[1], context);
+    const slots = element.slots > 0
+      ? element.slots * length
+      : Math.ceil(length / Math.floor(32 / element.bytes));
+    return { bytes: slots * 32, slots };
+  }
+
+  const elementary = elementarySize(typeName);
+  if (elementary !== undefined) {
+    return { bytes: elementary, slots: 0 };
+  }
+
+  const key = findDefinition(index, typeName, context);
+  if (key) {
+    const definition = index.definitions.get(key)!;
+    switch (definition.kind) {
+      case 'enum':
+        return { bytes: 1, slots: 0 };
+      case 'udvt':
+        return storageSize(index, definition.underlying, context);
+      case 'struct': {
+        const slots = packFields(index, definition.fields, definition.container).slots;
+        return { bytes: slots * 32, slots };
+      }
+    }
+  }
+
+  if (index.contracts.has(typeName)) {
+    return { bytes: 20, slots: 0 };
+  }
+
+  // Unknown types are assumed to take a full slot
+  return { bytes: 32, slots: 0 };
+}
+
+function elementarySize(typeName: string): number | undefined {
+  if (typeName === 'bool') return 1;
+  if (typeName === 'address' || typeName === 'address payable') return 20;
+  if (typeName === 'string' || typeName === 'bytes') return 32;
+
+  const integer = typeName.match(/^u?int(\d*)$/);
+  if (integer) return integer[1] ? Number(integer[1]) / 8 : 32;
+
+  const fixedBytes = typeName.match(/^bytes(\d+)$/);
+  if (fixedBytes) return Number(fixedBytes[1]);
+
+  return undefined;
+}
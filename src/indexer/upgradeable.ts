@@ -0,0 +1,39 @@
+import type { ContractInfo } from '../types.js';
+
+/**
+ * Combine the standard and upgradeable contracts of one release. The
+ * upgradeable package ships a few contracts unchanged (e.g. Initializable);
+ * those keep their standard entry. Each upgradeable contract is linked to the
+ * standard one it wraps (ERC20Upgradeable <-> ERC20, IERC20Upgradeable <-> IERC20).
+ */
+export function mergeUpgradeableVariant(standard: ContractInfo[], upgradeable: ContractInfo[]): ContractInfo[] {
+  const byName = new Map(standard.map(contract => [contract.name, contract]));
+  const merged = [...standard];
+
+  for (const contract of upgradeable) {
+    if (byName.has(contract.name)) continue;
+    merged.push(contract);
+
+    const counterpart = contract.type === 'file' ? undefined : byName.get(getStandardName(contract.name));
+    if (counterpart) {
+      contract.counterpart = counterpart.name;
+      counterpart.counterpart = contract.name;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Name of the standard contract an upgradeable one corresponds to
+ */
+function getStandardName(upgradeableName: string): string {
+  return upgradeableName.replace(/Upgradeable$/, '');
+}
+
+/**
+ * Initializers generated for an upgradeable contract, e.g. __ERC20_init and __ERC20_init_unchained
+ */
+export function isInitializer(functionName: string): boolean {
+  return /^__\w+_init(_unchained)?$/.test(functionName);
+}
@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import path from 'path';
 import { existsSync } from 'fs';
@@ -11,8 +12,23 @@ import { searchOzDocsTool, handleSearchOzDocs, type SearchOzDocsArgs } from './t
 import { getOzContractTool, handleGetOzContract, type GetOzContractArgs } from './tools/get-contract.js';
 import { getOzFunctionTool, handleGetOzFunction, type GetOzFunctionArgs } from './tools/get-function.js';
 import { listOzModulesTool, handleListOzModules, type ListOzModulesArgs } from './tools/list-modules.js';
+import { getOzAbiTool, handleGetOzAbi, type GetOzAbiArgs } from './tools/get-abi.js';
+import { lookupOzSelectorTool, handleLookupOzSelector, type LookupOzSelectorArgs } from './tools/lookup-selector.js';
+import { getOzAccessMatrixTool, handleGetOzAccessMatrix, type GetOzAccessMatrixArgs } from './tools/get-access-matrix.js';
+import { getOzStorageLayoutTool, handleGetOzStorageLayout, type GetOzStorageLayoutArgs } from './tools/get-storage-layout.js';
+import { getOzSourceTool, handleGetOzSource, type GetOzSourceArgs } from './tools/get-source.js';
+import { traceOzCallsTool, handleTraceOzCalls, type TraceOzCallsArgs } from './tools/trace-calls.js';
+import { traceOzEffectsTool, handleTraceOzEffects, type TraceOzEffectsArgs } from './tools/trace-effects.js';
+import { getOzImportTool, handleGetOzImport, type GetOzImportArgs } from './tools/get-import.js';
+import { diffOzVersionsTool, handleDiffOzVersions, type DiffOzVersionsArgs } from './tools/diff-versions.js';
+import { checkOzMigrationTool, handleCheckOzMigration, type CheckOzMigrationArgs } from './tools/check-migration.js';
+import { getOzChangelogTool, handleGetOzChangelog, type GetOzChangelogArgs } from './tools/get-changelog.js';
+import { getOzDocSectionTool, handleGetOzDocSection, type GetOzDocSectionArgs } from './tools/get-doc-section.js';
 import { buildIndex } from './indexer/build-index.js';
-import { openDatabase, type Database } from './db/schema.js';
+import { openDatabase, getSchemaVersion, SCHEMA_VERSION, type Database } from './db/schema.js';
+import { listReleases, listProducts, resolveVersion } from './db/queries.js';
+import { detectProjectVersion } from './workspace.js';
+import type { ProjectVersion } from './types.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -31,7 +47,7 @@ const indexStatusTool = {
   },
 };
 
-function handleIndexStatus() {
+function handleIndexStatus(project: ProjectVersion | null) {
   return {
     content: [
       {
@@ -39,6 +55,7 @@ function handleIndexStatus() {
         text: JSON.stringify({
           status: indexStatus,
           error: indexError,
+          project,
           message:
             indexStatus === 'building'
               ? 'Index is building. This takes 2-3 minutes on first run. Please wait and try again.'
@@ -51,6 +68,256 @@ function handleIndexStatus() {
   };
 }
 
+// Arguments naming a version, resolved to an exact release before dispatch
+const VERSION_ARGS = ['version', 'from', 'to'];
+
+// Version arguments that default to the version the user's project depends on
+const PROJECT_VERSION_ARGS = ['version', 'from'];
+
+// Release filled in for an omitted version argument, and why
+interface AssumedVersion {
+  release: string;
+  reason: string;
+}
+
+/**
+ * Indexed release closest to the project's version: the version itself, else
+ * the newest indexed release of its minor, then major line
+ */
+function resolveProjectVersion(database: Database, project: ProjectVersion): AssumedVersion | null {
+  const [major, minor] = project.version.split('.');
+  for (const candidate of new Set([project.version, `${major}.${minor}`, `${major}.x`])) {
+    const release = resolveVersion(database, candidate);
+    if (!release) continue;
+    if (release === project.version) return { release, reason: project.reason };
+
+    const line = candidate.endsWith('.x') ? candidate : `${candidate.split('.').slice(0, 2).join('.')}.x`;
+    return { release, reason: `${project.reason}; ${release} is the newest indexed ${line} release` };
+  }
+  return null;
+}
+
+/**
+ * Indexed products a tool accepts: the values of its product argument, else
+ * Contracts only
+ */
+function toolProducts(tool: Tool, database: Database): string[] {
+  const property = tool.inputSchema.properties?.product as { enum?: string[] } | undefined;
+  const indexed = listProducts(database);
+  return (property?.enum ?? ['contracts']).filter(product => indexed.includes(product));
+}
+
+/**
+ * Versions a tool accepts: the release lines and exact releases in the index
+ * of the products it covers, newest first, followed by any extra values the
+ * tool declares (e.g. 'all'). The product argument lists indexed products.
+ */
+function advertiseVersions(tool: Tool, database: Database, project: ProjectVersion | null): Tool {
+  const products = toolProducts(tool, database);
+  const releases = products.flatMap(product => listReleases(database, product));
+  if (releases.length === 0) return tool;
+  const projectRelease = project && resolveProjectVersion(database, project);
+
+  const versions = [
+    ...new Set([
+      ...releases.map(r => r.series),
+      ...releases.map(r => r.release),
+      ...releases.flatMap(r => (r.label ? [r.label] : [])),
+    ]),
+  ];
+
+  const properties = { ...tool.inputSchema.properties };
+  if (properties.product) {
+    properties.product = { ...properties.product, enum: products };
+  }
+  for (const arg of VERSION_ARGS) {
+    const property = properties[arg] as { enum?: string[]; default?: string } | undefined;
+    if (!property) continue;
+    properties[arg] = {
+      ...property,
+      enum: [...versions, ...(property.enum ?? [])],
+      ...(property.default !== undefined
+        ? { default: projectRelease && PROJECT_VERSION_ARGS.includes(arg) ? projectRelease.release : releases[0].series }
+        : {}),
+    };
+  }
+
+  return { ...tool, inputSchema: { ...tool.inputSchema, properties } };
+}
+
+/**
+ * Replace each requested version by the exact release of the requested
+ * product (Contracts by default) it resolves to. Omitted arguments default to
+ * the project's version (see PROJECT_VERSION_ARGS; Contracts only), else to
+ * the newest release if the tool declares a default, else are left to the
+ * handler; `assumed` records the releases filled in. Returns an error
+ * response if the product is not indexed or a version matches none.
+ */
+function resolveToolVersion(
+  tool: Tool,
+  args: Record<string, unknown>,
+  database: Database,
+  project: ProjectVersion | null,
+  assumed: Record<string, AssumedVersion>
+) {
+  const product = typeof args.product === 'string' ? args.product : 'contracts';
+  if (tool.inputSchema.properties?.product && !toolProducts(tool, database).includes(product)) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            error: `Product '${product}' is not indexed`,
+            available: toolProducts(tool, database),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+  if (product !== 'contracts') project = null;
+
+  for (const arg of VERSION_ARGS) {
+    const property = tool.inputSchema.properties?.[arg] as { enum?: string[]; default?: string } | undefined;
+    if (!property) continue;
+
+    if (args[arg] === undefined) {
+      const projectRelease = project && PROJECT_VERSION_ARGS.includes(arg) && resolveProjectVersion(database, project);
+      if (projectRelease) {
+        args[arg] = projectRelease.release;
+        assumed[arg] = projectRelease;
+        continue;
+      }
+      // Without a declared default, the handler picks the version
+      if (property.default === undefined) continue;
+
+      const latest = resolveVersion(database, 'latest', product);
+      if (!latest) continue;
+      args[arg] = latest;
+      assumed[arg] = {
+        release: latest,
+        reason: !PROJECT_VERSION_ARGS.includes(arg) || product !== 'contracts'
+          ? 'Newest indexed release'
+          : project
+            ? `${project.reason}; ${project.version} is not indexed, using the newest indexed release`
+            : 'Newest indexed release; no OpenZeppelin Contracts dependency found in the workspace',
+      };
+      continue;
+    }
+
+    const requested = typeof args[arg] === 'string' ? args[arg] as string : 'latest';
+    if (property.enum?.includes(requested)) continue;
+
+    const release = resolveVersion(database, requested, product);
+    if (release) {
+      args[arg] = release;
+      continue;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            error: `Version '${requested}' of ${product} is not indexed`,
+            available: listReleases(database, product).map(r => r.release),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+  return null;
+}
+
+/**
+ * Run a tool on arguments with resolved versions
+ */
+function callTool(name: string, database: Database, toolArgs: Record<string, unknown>) {
+  switch (name) {
+    case 'search_oz_docs':
+      return handleSearchOzDocs(database, toolArgs as unknown as SearchOzDocsArgs);
+
+    case 'get_oz_contract':
+      return handleGetOzContract(database, toolArgs as unknown as GetOzContractArgs);
+
+    case 'get_oz_function':
+      return handleGetOzFunction(database, toolArgs as unknown as GetOzFunctionArgs);
+
+    case 'list_oz_modules':
+      return handleListOzModules(database, toolArgs as unknown as ListOzModulesArgs);
+
+    case 'lookup_oz_selector':
+      return handleLookupOzSelector(database, toolArgs as unknown as LookupOzSelectorArgs);
+
+    case 'get_oz_abi':
+      return handleGetOzAbi(database, toolArgs as unknown as GetOzAbiArgs);
+
+    case 'get_oz_access_matrix':
+      return handleGetOzAccessMatrix(database, toolArgs as unknown as GetOzAccessMatrixArgs);
+
+    case 'get_oz_storage_layout':
+      return handleGetOzStorageLayout(database, toolArgs as unknown as GetOzStorageLayoutArgs);
+
+    case 'get_oz_source':
+      return handleGetOzSource(database, toolArgs as unknown as GetOzSourceArgs);
+
+    case 'trace_oz_calls':
+      return handleTraceOzCalls(database, toolArgs as unknown as TraceOzCallsArgs);
+
+    case 'trace_oz_effects':
+      return handleTraceOzEffects(database, toolArgs as unknown as TraceOzEffectsArgs);
+
+    case 'get_oz_import':
+      return handleGetOzImport(database, toolArgs as unknown as GetOzImportArgs);
+
+    case 'diff_oz_versions':
+      return handleDiffOzVersions(database, toolArgs as unknown as DiffOzVersionsArgs);
+
+    case 'check_oz_migration':
+      return handleCheckOzMigration(database, toolArgs as unknown as CheckOzMigrationArgs);
+
+    case 'get_oz_changelog':
+      return handleGetOzChangelog(database, toolArgs as unknown as GetOzChangelogArgs);
+
+    case 'get_oz_doc_section':
+      return handleGetOzDocSection(database, toolArgs as unknown as GetOzDocSectionArgs);
+
+    default:
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({ error: `Unknown tool: ${name}` }),
+          },
+        ],
+        isError: true,
+      };
+  }
+}
+
+/**
+ * State the versions filled in for omitted arguments, and why, at the top of
+ * a tool's JSON response
+ */
+function withAssumedVersions<T extends { content: Array<{ type: 'text'; text: string }> }>(
+  response: T,
+  assumed: Record<string, AssumedVersion>
+): T {
+  if (Object.keys(assumed).length === 0) return response;
+
+  const [first, ...rest] = response.content;
+  let body: unknown;
+  try {
+    body = JSON.parse(first.text);
+  } catch {
+    body = undefined;
+  }
+
+  const text = body && typeof body === 'object' && !Array.isArray(body)
+    ? JSON.stringify({ assumedVersions: assumed, ...body }, null, 2)
+    : `${first.text}\n${JSON.stringify({ assumedVersions: assumed }, null, 2)}`;
+  return { ...response, content: [{ ...first, text }, ...rest] };
+}
+
 function createBuildingResponse(toolName: string) {
   return {
     content: [
@@ -85,27 +352,22 @@ export function createServer(dbPath?: string): Server {
   const dataDir = path.resolve(__dirname, '..', 'data');
   const resolvedDbPath = dbPath || path.join(dataDir, 'oz-docs.db');
 
-  // Check if database exists
-  if (existsSync(resolvedDbPath)) {
-    // Database exists, open it asynchronously
-    indexStatus = 'building'; // Temporarily set to building while we load
-    openDatabase(resolvedDbPath)
-      .then((database) => {
-        db = database;
-        indexStatus = 'ready';
-      })
-      .catch((error) => {
-        indexStatus = 'error';
-        indexError = error instanceof Error ? error.message : String(error);
-      });
-  } else {
-    // Database doesn't exist, start background build
-    indexStatus = 'building';
-    console.error('Database not found. Building index in background (2-3 minutes)...');
+  // Version of the user's project, the default for version arguments
+  const workspaceRoot = path.resolve(process.env.OZ_WORKSPACE || process.cwd());
+  const projectVersion = detectProjectVersion(workspaceRoot).catch((error) => {
+    console.error(`Cannot detect the OpenZeppelin Contracts version of ${workspaceRoot}:`, error);
+    return null;
+  });
 
+  // `reason` prefixes the error when the build fails, e.g. why the index was rebuilt
+  const buildInBackground = (reason?: string) => {
+    indexStatus = 'building';
     buildIndex({
       dataDir,
       dbPath: resolvedDbPath,
+      manifestPath: path.resolve(__dirname, '..', 'releases.json'),
+      // OZ_SOURCES: local source roots, separated like PATH, for machines without network access
+      sources: process.env.OZ_SOURCES?.split(path.delimiter).filter(Boolean),
       skipFetch: false,
       force: false,
     })
@@ -120,8 +382,37 @@ export function createServer(dbPath?: string): Server {
       .catch((err) => {
         console.error('Index build failed:', err);
         indexStatus = 'error';
-        indexError = err instanceof Error ? err.message : String(err);
+        const message = err instanceof Error ? err.message : String(err);
+        indexError = reason ? `${reason}, and rebuilding it failed: ${message}` : message;
+      });
+  };
+
+  // Check if database exists
+  if (existsSync(resolvedDbPath)) {
+    // Database exists, open it asynchronously
+    indexStatus = 'building'; // Temporarily set to building while we load
+    openDatabase(resolvedDbPath)
+      .then((database) => {
+        // Databases of an older schema lack tables and columns the queries use
+        const schemaVersion = getSchemaVersion(database);
+        if (schemaVersion !== SCHEMA_VERSION) {
+          database.close();
+          const reason = `The index at ${resolvedDbPath} has schema version ${schemaVersion}, expected ${SCHEMA_VERSION}`;
+          console.error(`${reason}. Rebuilding index in background (2-3 minutes)...`);
+          buildInBackground(reason);
+          return;
+        }
+        db = database;
+        indexStatus = 'ready';
+      })
+      .catch((error) => {
+        indexStatus = 'error';
+        indexError = error instanceof Error ? error.message : String(error);
       });
+  } else {
+    // Database doesn't exist, start background build
+    console.error('Database not found. Building index in background (2-3 minutes)...');
+    buildInBackground();
   }
 
   // Create MCP server
@@ -137,16 +428,43 @@ export function createServer(dbPath?: string): Server {
     }
   );
 
+  const tools: Tool[] = [
+    searchOzDocsTool,
+    getOzContractTool,
+    getOzFunctionTool,
+    listOzModulesTool,
+    lookupOzSelectorTool,
+    getOzAbiTool,
+    getOzAccessMatrixTool,
+    getOzStorageLayoutTool,
+    getOzSourceTool,
+    traceOzCallsTool,
+    traceOzEffectsTool,
+    getOzImportTool,
+    diffOzVersionsTool,
+    checkOzMigrationTool,
+    getOzChangelogTool,
+    getOzDocSectionTool,
+  ];
+
   // List available tools
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
-      indexStatusTool,
-      searchOzDocsTool,
-      getOzContractTool,
-      getOzFunctionTool,
-      listOzModulesTool,
-    ],
-  }));
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const project = await projectVersion;
+    return {
+      tools: [
+        indexStatusTool,
+        ...tools.map(tool => {
+          if (!db) return tool;
+          try {
+            return advertiseVersions(tool, db, project);
+          } catch (error) {
+            console.error(`Cannot list the indexed releases for ${tool.name}:`, error);
+            return tool;
+          }
+        }),
+      ],
+    };
+  });
 
   // Handle tool calls
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
@@ -154,7 +472,7 @@ export function createServer(dbPath?: string): Server {
 
     // Status tool always works
     if (name === 'oz_index_status') {
-      return handleIndexStatus();
+      return handleIndexStatus(await projectVersion);
     }
 
     // Other tools need the index to be ready
@@ -166,31 +484,19 @@ export function createServer(dbPath?: string): Server {
       return createErrorResponse();
     }
 
+    const project = await projectVersion;
+
     try {
-      switch (name) {
-        case 'search_oz_docs':
-          return handleSearchOzDocs(db, args as unknown as SearchOzDocsArgs);
-
-        case 'get_oz_contract':
-          return handleGetOzContract(db, args as unknown as GetOzContractArgs);
-
-        case 'get_oz_function':
-          return handleGetOzFunction(db, args as unknown as GetOzFunctionArgs);
-
-        case 'list_oz_modules':
-          return handleListOzModules(db, args as unknown as ListOzModulesArgs);
-
-        default:
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: JSON.stringify({ error: `Unknown tool: ${name}` }),
-              },
-            ],
-            isError: true,
-          };
+      // Handlers take an exact release; resolve release lines such as '5.x'
+      const toolArgs: Record<string, unknown> = { ...args };
+      const assumed: Record<string, AssumedVersion> = {};
+      const tool = tools.find(t => t.name === name);
+      const versionError = tool && resolveToolVersion(tool, toolArgs, db, project, assumed);
+      if (versionError) {
+        return versionError;
       }
+
+      return withAssumedVersions(callTool(name, db, toolArgs), assumed);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Database } from '../db/schema.js';
+import { checkMigration, listReleases } from '../db/queries.js';
+import { parseSoliditySource } from '../indexer/parse-solidity.js';
+import { parseImports, fromImportPath } from '../indexer/imports.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const checkOzMigrationTool: Tool = {
+  name: 'check_oz_migration',
+  description: 'Check Solidity code against a target OpenZeppelin Contracts version: lists every OpenZeppelin import, contract, function, modifier and base constructor the code uses that the target version removes or changes (e.g. _beforeTokenTransfer, Counters, _setupRole, safeApprove), with the recommended replacement',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: {
+        type: 'string',
+        description: 'Solidity source to check',
+      },
+      path: {
+        type: 'string',
+        description: "Local Solidity file to check, instead of 'source'",
+      },
+      from: {
+        type: 'string',
+        description: "Version the code is written against (e.g., '4.x', '4.9.6'). Defaults to the version the workspace project depends on, else the newest indexed release before the target's major version",
+      },
+      to: {
+        type: 'string',
+        default: '5.x',
+        description: "Target version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+  },
+};
+
+export interface CheckOzMigrationArgs {
+  source?: string;
+  path?: string;
+  from?: string;
+  to?: string;
+}
+
+export function handleCheckOzMigration(db: Database, args: CheckOzMigrationArgs) {
+  const { path: filePath, to = '5.x' } = args;
+
+  let source = args.source;
+  if (!source && filePath) {
+    try {
+      source = readFileSync(path.resolve(filePath), 'utf-8');
+    } catch (error) {
+      return errorResponse(`Cannot read '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!source) {
+    return errorResponse("Provide 'source' or 'path'");
+  }
+
+  const major = (release: string) => release.split('.')[0];
+  const from = args.from ?? listReleases(db).find(r => Number(major(r.release)) < Number(major(to)))?.release;
+  if (!from) {
+    return errorResponse(`No release before ${to} is indexed; pass 'from'`);
+  }
+
+  const fileName = filePath ? path.basename(filePath) : 'Contract.sol';
+  const contracts = parseSoliditySource(source, fileName, from);
+  if (contracts.length === 0) {
+    return errorResponse('No Solidity declarations found; the source may not parse');
+  }
+
+  // Relative imports are the code's own files; keep the OpenZeppelin ones
+  const lines = source.split('\n');
+  const imports = parseImports(source, fileName, 'standard')
+    .filter(importPath => fromImportPath(importPath))
+    .map(importPath => {
+      const index = lines.findIndex(line => line.includes(`"${importPath}"`) || line.includes(`'${importPath}'`));
+      return { path: importPath, line: index >= 0 ? index + 1 : undefined };
+    });
+
+  const report = checkMigration(db, { contracts, imports }, from, to);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          report.findings.length === 0
+            ? { ...report, note: `No OpenZeppelin API used by this code is removed or changed between ${from} and ${to}` }
+            : report,
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+function errorResponse(error: string) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error }, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,78 @@
+import type { Database } from '../db/schema.js';
+import { diffVersions } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const diffOzVersionsTool: Tool = {
+  name: 'diff_oz_versions',
+  description: 'Compare the API of two OpenZeppelin Contracts versions, for one contract or the whole library: contracts and members added, removed or renamed, signature, visibility and mutability changes, and inheritance changes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        description: "Older version: a release line ('4.x') or an exact release ('4.9.6')",
+      },
+      to: {
+        type: 'string',
+        default: '5.x',
+        description: "Newer version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      name: {
+        type: 'string',
+        description: "Contract to compare (e.g., 'ERC20', 'AccessControl'). Omit to compare the whole library",
+      },
+      category: {
+        type: 'string',
+        description: "Without 'name': only compare contracts of this category (e.g., 'token', 'access')",
+      },
+      variant: {
+        type: 'string',
+        enum: ['standard', 'upgradeable'],
+        default: 'standard',
+        description: "Without 'name': package to compare",
+      },
+    },
+    required: ['from'],
+  },
+};
+
+export interface DiffOzVersionsArgs {
+  from: string;
+  to?: string;
+  name?: string;
+  category?: string;
+  variant?: 'standard' | 'upgradeable';
+}
+
+export function handleDiffOzVersions(db: Database, args: DiffOzVersionsArgs) {
+  const { from, to = '5.x', name, category = 'all', variant = 'standard' } = args;
+
+  const diff = diffVersions(db, from, to, name, variant, category);
+
+  if (!diff) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Contract '${name}' not found in OpenZeppelin Contracts ${from} or ${to}`,
+              suggestion: 'Try using list_oz_modules to see available contracts',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(diff, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,70 @@
+import type { Database } from '../db/schema.js';
+import { getAbi } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const getOzAbiTool: Tool = {
+  name: 'get_oz_abi',
+  description: 'Get the Solidity ABI JSON of an OpenZeppelin contract or interface, including inherited functions, events and errors',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "Contract or interface name (e.g., 'IERC20', 'IGovernor', 'ERC4626')",
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export interface GetOzAbiArgs {
+  name: string;
+  version?: string;
+}
+
+export function handleGetOzAbi(db: Database, args: GetOzAbiArgs) {
+  const { name, version = '5.x' } = args;
+
+  const result = getAbi(db, name, version);
+
+  if (!result) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Contract '${name}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: 'Try using list_oz_modules to see available contracts',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            name: result.name,
+            version,
+            linearization: result.linearization,
+            abi: result.abi,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
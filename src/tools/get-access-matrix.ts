@@ -0,0 +1,194 @@
+import type { Database } from '../db/schema.js';
+import { getContract, formatModifierInvocation } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { MemberDetails } from '../types.js';
+
+// Modifiers that restrict the caller: onlyOwner, onlyRole(...), onlyGovernance, restricted, ...
+const GUARD_MODIFIER_PATTERN = /^only[A-Z]|^restricted$/;
+
+// Modifiers named like guards that check how the function runs, not who calls it
+const CONTEXT_MODIFIERS = new Set(['onlyProxy', 'onlyNotDelegated', 'onlyInitializing']);
+
+// Internal functions that revert unless the caller is authorized
+const CHECK_FUNCTIONS = new Set(['_checkOwner', '_checkRole', '_checkCanCall']);
+
+export const getOzAccessMatrixTool: Tool = {
+  name: 'get_oz_access_matrix',
+  description: 'List the role/owner guards of an OpenZeppelin contract and its bases (modifiers, _checkOwner/_checkRole/_checkCanCall calls and msg.sender checks, also through internal calls such as _authorizeUpgrade), with the functions each guard protects and the state-changing functions left unguarded',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "Contract name (e.g., 'AccessManager', 'TimelockController', 'ERC20PresetMinterPauser')",
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export interface GetOzAccessMatrixArgs {
+  name: string;
+  version?: string;
+}
+
+interface GuardedFunction {
+  name: string;
+  signature: string;
+  visibility: string | null;
+  declaredIn?: string;
+  via?: string; // Internal function the guard is applied in, e.g. '_authorizeUpgrade'
+}
+
+interface AccessGuard {
+  guard: string;
+  kind: 'modifier' | 'check' | 'condition'; // Guard modifier, call to a check function, or msg.sender comparison
+  modifier?: string;
+  check?: string;
+  definedIn?: string;
+  description?: string | null;
+  functions: GuardedFunction[];
+}
+
+type FoundGuard = Omit<AccessGuard, 'functions'> & { via?: string };
+
+export function handleGetOzAccessMatrix(db: Database, args: GetOzAccessMatrixArgs) {
+  const { name, version = '5.x' } = args;
+
+  const contract = getContract(db, name, version, true);
+
+  if (!contract) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Contract '${name}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: 'Try using list_oz_modules to see available contracts',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const modifierOrigins = new Map(contract.modifiers.map(m => [m.name, m]));
+  const guards = new Map<string, AccessGuard>();
+  const unguarded: GuardedFunction[] = [];
+
+  // Internal functions are reached through their callers, which list them as `via`
+  for (const func of contract.functions) {
+    if (func.visibility !== 'public' && func.visibility !== 'external') continue;
+    const found = findGuards(func, contract.functions, modifierOrigins);
+
+    for (const { via, ...guard } of found) {
+      if (!guards.has(guard.guard)) {
+        guards.set(guard.guard, { ...guard, functions: [] });
+      }
+      guards.get(guard.guard)!.functions.push({ ...summarize(func), via });
+    }
+
+    if (found.length === 0 && isExternallyMutating(func)) {
+      unguarded.push(summarize(func));
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            name: contract.name,
+            version,
+            linearization: contract.linearization,
+            guards: [...guards.values()],
+            unguarded,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Guards of a function: guard modifiers, calls to check functions and reverts
+ * conditioned on the caller, in its body or in the internal functions it calls
+ */
+function findGuards(
+  func: MemberDetails,
+  functions: MemberDetails[],
+  modifierOrigins: Map<string, MemberDetails>,
+  visited: Set<MemberDetails> = new Set()
+): FoundGuard[] {
+  visited.add(func);
+  const found = new Map<string, FoundGuard>();
+  const add = (guard: FoundGuard) => {
+    if (!found.has(guard.guard)) found.set(guard.guard, guard);
+  };
+
+  for (const modifier of func.modifiers) {
+    if (!GUARD_MODIFIER_PATTERN.test(modifier.name) || CONTEXT_MODIFIERS.has(modifier.name)) continue;
+    const definition = modifierOrigins.get(modifier.name);
+    add({
+      guard: formatModifierInvocation(modifier),
+      kind: 'modifier',
+      modifier: modifier.name,
+      definedIn: definition?.declaredIn,
+      description: definition?.natspecNotice || definition?.natspecDev,
+    });
+  }
+
+  for (const revert of func.reverts) {
+    if (revert.callerCheck) {
+      add({ guard: revert.callerCheck, kind: 'condition', definedIn: func.declaredIn });
+    }
+  }
+
+  for (const call of func.calls) {
+    if (call.kind !== 'internal' && call.kind !== 'this') continue;
+    const callee = functions.find(f => f.name === call.name && f.params.length === call.argumentCount);
+
+    if (CHECK_FUNCTIONS.has(call.name)) {
+      add({
+        guard: call.name,
+        kind: 'check',
+        check: call.name,
+        definedIn: callee?.declaredIn,
+        description: callee?.natspecNotice || callee?.natspecDev,
+      });
+    } else if (callee && !visited.has(callee)) {
+      for (const guard of findGuards(callee, functions, modifierOrigins, visited)) {
+        add({ ...guard, via: guard.via ?? callee.name });
+      }
+    }
+  }
+
+  return [...found.values()];
+}
+
+function summarize(func: MemberDetails): GuardedFunction {
+  return {
+    name: func.name,
+    signature: func.signature,
+    visibility: func.visibility,
+    declaredIn: func.declaredIn,
+  };
+}
+
+function isExternallyMutating(func: MemberDetails): boolean {
+  return (func.visibility === 'public' || func.visibility === 'external') &&
+    func.mutability !== 'view' &&
+    func.mutability !== 'pure' &&
+    func.name !== 'constructor';
+}
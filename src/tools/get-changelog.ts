@@ -0,0 +1,93 @@
+import type { Database } from '../db/schema.js';
+import { getChangelog } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const getOzChangelogTool: Tool = {
+  name: 'get_oz_changelog',
+  description: 'Get OpenZeppelin Contracts CHANGELOG entries, filtered by contract or member, text, release range or breaking changes. Answers when and how an API changed, with links to the changelog and pull requests',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      contract: {
+        type: 'string',
+        description: "Contract the entries mention (e.g., 'Governor', 'Governor*' for the whole family), or a member as 'Contract.member' (e.g., 'ERC20._update', '*.quorum')",
+      },
+      query: {
+        type: 'string',
+        description: "Words the entries must contain (e.g., 'quorum')",
+      },
+      since: {
+        type: 'string',
+        description: "First release to include: a release ('4.9.0') or release line ('5.x', '5.1')",
+      },
+      until: {
+        type: 'string',
+        description: "Last release to include: a release ('5.0.0') or release line ('4.x')",
+      },
+      breaking: {
+        type: 'boolean',
+        default: false,
+        description: 'Only breaking changes and removals',
+      },
+      limit: {
+        type: 'number',
+        default: 20,
+        description: 'Maximum number of entries',
+      },
+    },
+  },
+};
+
+export interface GetOzChangelogArgs {
+  contract?: string;
+  query?: string;
+  since?: string;
+  until?: string;
+  breaking?: boolean;
+  limit?: number;
+}
+
+export function handleGetOzChangelog(db: Database, args: GetOzChangelogArgs) {
+  const { contract, query, since, until, breaking = false, limit = 20 } = args;
+
+  const { total, entries } = getChangelog(db, contract, query, since, until, breaking, limit);
+
+  if (total === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: 'No changelog entries match',
+              suggestion: "Widen the release range, use wildcards ('Governor*') or drop the text query",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            contract,
+            query,
+            since,
+            until,
+            breaking,
+            total,
+            entries,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -1,22 +1,39 @@
 import type { Database } from '../db/schema.js';
-import { getContract } from '../db/queries.js';
+import { getContract, formatModifierInvocation, resolveVariantName } from '../db/queries.js';
+import { isInitializer } from '../indexer/upgradeable.js';
+import { PRODUCT_INFO, type Product } from '../indexer/releases.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { CustomTags } from '../types.js';
 
 export const getOzContractTool: Tool = {
   name: 'get_oz_contract',
-  description: 'Get detailed API reference for a specific OpenZeppelin contract or library',
+  description: 'Get detailed API reference for a specific OpenZeppelin contract or library, or a Cairo component, contract or trait',
   inputSchema: {
     type: 'object',
     properties: {
       name: {
         type: 'string',
-        description: "Contract or library name (e.g., 'ERC20', 'Ownable', 'ECDSA', 'SafeERC20')",
+        description: "Contract or library name (e.g., 'ERC20', 'Ownable', 'ECDSA', 'SafeERC20'; for Cairo 'ERC20Component', 'IERC20' or a module path)",
       },
       version: {
         type: 'string',
-        enum: ['4.x', '5.x'],
         default: '5.x',
-        description: 'OpenZeppelin Contracts version',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      product: {
+        type: 'string',
+        enum: ['contracts', 'contracts-cairo'],
+        default: 'contracts',
+        description: "Library to look in: 'contracts' (Solidity) or 'contracts-cairo' (Cairo, for Starknet). Versions are releases of that library",
+      },
+      include_inherited: {
+        type: 'boolean',
+        default: false,
+        description: 'Include members inherited from base contracts (C3 linearization), tagged with their declaring contract',
+      },
+      upgradeable: {
+        type: 'boolean',
+        description: "Return the openzeppelin-contracts-upgradeable flavour (true: 'ERC20' resolves to 'ERC20Upgradeable') or the standard one (false)",
       },
     },
     required: ['name'],
@@ -26,12 +43,18 @@ export const getOzContractTool: Tool = {
 export interface GetOzContractArgs {
   name: string;
   version?: string;
+  product?: string;
+  include_inherited?: boolean;
+  upgradeable?: boolean;
 }
 
 export function handleGetOzContract(db: Database, args: GetOzContractArgs) {
-  const { name, version = '5.x' } = args;
+  const { name, version = '5.x', product = 'contracts', include_inherited = false, upgradeable } = args;
 
-  const contract = getContract(db, name, version);
+  const contractName = upgradeable === undefined
+    ? name
+    : resolveVariantName(db, name, upgradeable ? 'upgradeable' : 'standard', version, product);
+  const contract = getContract(db, contractName, version, include_inherited, product);
 
   if (!contract) {
     return {
@@ -40,7 +63,7 @@ export function handleGetOzContract(db: Database, args: GetOzContractArgs) {
           type: 'text' as const,
           text: JSON.stringify(
             {
-              error: `Contract '${name}' not found in OpenZeppelin Contracts ${version}`,
+              error: `Contract '${name}' not found in ${PRODUCT_INFO[product as Product]?.title ?? product} ${version}`,
               suggestion: 'Try using list_oz_modules to see available contracts',
             },
             null,
@@ -56,37 +79,95 @@ export function handleGetOzContract(db: Database, args: GetOzContractArgs) {
     name: contract.name,
     type: contract.type,
     category: contract.category,
+    product: contract.product,
     version: contract.version,
+    title: contract.natspecTitle ?? undefined,
     description: contract.natspecNotice,
+    customTags: nonEmpty(contract.customTags),
+    variant: contract.variant,
+    counterpart: contract.counterpart ?? undefined,
     inheritance: contract.inheritance,
+    linearization: contract.linearization,
+    initializers: contract.variant === 'upgradeable'
+      ? contract.functions.filter(f => isInitializer(f.name)).map(f => f.signature)
+      : undefined,
+    importPath: contract.importPath ?? undefined,
     sourceUrl: contract.sourceUrl,
     functions: contract.functions.map(f => ({
       name: f.name,
       signature: f.signature,
       visibility: f.visibility,
       mutability: f.mutability,
+      modifiers: f.modifiers.length ? f.modifiers.map(formatModifierInvocation) : undefined,
+      virtual: f.isVirtual || undefined,
+      override: f.override ?? undefined,
       description: f.natspecNotice,
+      customTags: nonEmpty(f.customTags),
       params: f.params,
       returns: f.returns,
+      declaredIn: f.declaredIn,
+      overrides: f.overrides?.length ? f.overrides : undefined,
     })),
     events: contract.events.map(e => ({
       name: e.name,
       signature: e.signature,
       description: e.natspecNotice,
+      customTags: nonEmpty(e.customTags),
       params: e.params,
+      declaredIn: e.declaredIn,
     })),
     errors: contract.errors.map(e => ({
       name: e.name,
       signature: e.signature,
       description: e.natspecNotice,
+      customTags: nonEmpty(e.customTags),
       params: e.params,
+      declaredIn: e.declaredIn,
     })),
     modifiers: contract.modifiers.map(m => ({
       name: m.name,
       signature: m.signature,
       description: m.natspecNotice,
+      customTags: nonEmpty(m.customTags),
       params: m.params,
+      declaredIn: m.declaredIn,
+    })),
+    stateVariables: contract.stateVariables.map(v => ({
+      name: v.name,
+      type: v.dataType,
+      signature: v.signature,
+      visibility: v.visibility,
+      mutability: v.mutability,
+      value: v.value,
+      description: v.natspecNotice || v.natspecDev,
+      customTags: nonEmpty(v.customTags),
+      declaredIn: v.declaredIn,
+    })),
+    structs: contract.structs.map(s => ({
+      name: s.name,
+      signature: s.signature,
+      description: s.natspecNotice || s.natspecDev,
+      customTags: nonEmpty(s.customTags),
+      fields: s.params,
+      declaredIn: s.declaredIn,
     })),
+    enums: contract.enums.map(e => ({
+      name: e.name,
+      signature: e.signature,
+      description: e.natspecNotice || e.natspecDev,
+      customTags: nonEmpty(e.customTags),
+      values: e.params.map(p => p.name),
+      declaredIn: e.declaredIn,
+    })),
+    userTypes: contract.userTypes.map(t => ({
+      name: t.name,
+      underlyingType: t.dataType,
+      signature: t.signature,
+      description: t.natspecNotice || t.natspecDev,
+      customTags: nonEmpty(t.customTags),
+      declaredIn: t.declaredIn,
+    })),
+    usingFor: contract.usingFor.map(u => u.signature),
   };
 
   return {
@@ -98,3 +179,7 @@ export function handleGetOzContract(db: Database, args: GetOzContractArgs) {
     ],
   };
 }
+
+function nonEmpty(tags: CustomTags): CustomTags | undefined {
+  return Object.keys(tags).length > 0 ? tags : undefined;
+}
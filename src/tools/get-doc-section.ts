@@ -0,0 +1,55 @@
+import type { Database } from '../db/schema.js';
+import { getDocSection } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const getOzDocSectionTool: Tool = {
+  name: 'get_oz_doc_section',
+  description: 'Get the whole documentation section a search_oz_docs result was cut from, to expand a matched chunk to its surrounding context',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sectionId: {
+        type: 'number',
+        description: 'The sectionId of a search_oz_docs documentation result',
+      },
+    },
+    required: ['sectionId'],
+  },
+};
+
+export interface GetOzDocSectionArgs {
+  sectionId: number;
+}
+
+export function handleGetOzDocSection(db: Database, args: GetOzDocSectionArgs) {
+  const { sectionId } = args;
+
+  const section = getDocSection(db, Number(sectionId));
+
+  if (!section) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Documentation section ${sectionId} not found`,
+              suggestion: 'Use the sectionId of a search_oz_docs result from the current index',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(section, null, 2),
+      },
+    ],
+  };
+}
@@ -1,22 +1,32 @@
 import type { Database } from '../db/schema.js';
-import { getFunction } from '../db/queries.js';
+import { getFunction, formatModifierInvocation, resolveVariantName, parseFunctionQuery } from '../db/queries.js';
+import { PRODUCT_INFO, type Product } from '../indexer/releases.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 export const getOzFunctionTool: Tool = {
   name: 'get_oz_function',
-  description: 'Get detailed information about a specific function in OpenZeppelin Contracts',
+  description: 'Get detailed information about a function in OpenZeppelin Contracts (or Contracts for Cairo). Pick a single overload with a parameter list or a selector, or match several functions with * wildcards',
   inputSchema: {
     type: 'object',
     properties: {
       function_name: {
         type: 'string',
-        description: "Function name, optionally with contract (e.g., 'transfer', 'ERC20.transfer', 'ECDSA.recover')",
+        description: "Function name, optionally with contract and parameter types, or a 4-byte selector (e.g., 'ERC20.transfer', 'ERC721.safeTransferFrom(address,address,uint256,bytes)', 'Math.mulDiv(uint256,uint256,uint256)', '0x42842e0e', 'ERC20*.mint*')",
       },
       version: {
         type: 'string',
-        enum: ['4.x', '5.x'],
         default: '5.x',
-        description: 'OpenZeppelin Contracts version',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      product: {
+        type: 'string',
+        enum: ['contracts', 'contracts-cairo'],
+        default: 'contracts',
+        description: "Library to look in: 'contracts' (Solidity) or 'contracts-cairo' (Cairo, for Starknet). Versions are releases of that library",
+      },
+      upgradeable: {
+        type: 'boolean',
+        description: "Look the contract up in the upgradeable flavour (true: 'ERC20.transfer' resolves to 'ERC20Upgradeable.transfer') or the standard one (false)",
       },
     },
     required: ['function_name'],
@@ -26,12 +36,19 @@ export const getOzFunctionTool: Tool = {
 export interface GetOzFunctionArgs {
   function_name: string;
   version?: string;
+  product?: string;
+  upgradeable?: boolean;
 }
 
 export function handleGetOzFunction(db: Database, args: GetOzFunctionArgs) {
-  const { function_name, version = '5.x' } = args;
+  const { function_name, version = '5.x', product = 'contracts', upgradeable } = args;
+
+  let { contractName } = parseFunctionQuery(function_name);
+  if (upgradeable !== undefined && contractName && !contractName.includes('*')) {
+    contractName = resolveVariantName(db, contractName, upgradeable ? 'upgradeable' : 'standard', version, product);
+  }
 
-  const functions = getFunction(db, function_name, undefined, version);
+  const functions = getFunction(db, function_name, contractName, version, product);
 
   if (functions.length === 0) {
     return {
@@ -40,7 +57,7 @@ export function handleGetOzFunction(db: Database, args: GetOzFunctionArgs) {
           type: 'text' as const,
           text: JSON.stringify(
             {
-              error: `Function '${function_name}' not found in OpenZeppelin Contracts ${version}`,
+              error: `Function '${function_name}' not found in ${PRODUCT_INFO[product as Product]?.title ?? product} ${version}`,
               suggestion: 'Try searching with search_oz_docs or use Contract.function format',
             },
             null,
@@ -53,12 +70,20 @@ export function handleGetOzFunction(db: Database, args: GetOzFunctionArgs) {
 
   // Format the function details
   const formatted = functions.map(f => ({
+    contractName: f.contractName,
     name: f.name,
     signature: f.signature,
     visibility: f.visibility,
     mutability: f.mutability,
+    modifiers: f.modifiers.map(formatModifierInvocation),
+    virtual: f.isVirtual,
+    override: f.override ?? undefined,
+    selector: f.selector,
+    canonicalSignature: f.canonicalSignature,
     description: f.natspecNotice,
     devNote: f.natspecDev,
+    documentedOn: f.natspecSource,
+    customTags: Object.keys(f.customTags).length > 0 ? f.customTags : undefined,
     parameters: f.params.map(p => ({
       name: p.name,
       type: p.type,
@@ -79,6 +104,7 @@ export function handleGetOzFunction(db: Database, args: GetOzFunctionArgs) {
         text: JSON.stringify(
           {
             functionName: function_name,
+            product,
             version,
             matches: formatted,
             count: formatted.length,
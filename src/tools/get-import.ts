@@ -0,0 +1,124 @@
+import type { Database } from '../db/schema.js';
+import { getImport, resolveVariantName, listReleases } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// Remappings for `forge install OpenZeppelin/<repo>`; the upgradeable repo
+// vendors the standard one as a submodule
+const FOUNDRY_REMAPPINGS: Record<string, string[]> = {
+  standard: ['@openzeppelin/contracts/=lib/openzeppelin-contracts/contracts/'],
+  upgradeable: [
+    '@openzeppelin/contracts-upgradeable/=lib/openzeppelin-contracts-upgradeable/contracts/',
+    '@openzeppelin/contracts/=lib/openzeppelin-contracts-upgradeable/lib/openzeppelin-contracts/contracts/',
+  ],
+};
+
+export const getOzImportTool: Tool = {
+  name: 'get_oz_import',
+  description: 'Get the correct import statement for an OpenZeppelin contract, library, interface or file-level declaration in a given version, with the install command (npm or Foundry remappings) and every file the import pulls in',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "Symbol to import (e.g., 'ERC20', 'SafeERC20', 'IERC20Errors', 'ShortString', 'Math.Rounding')",
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      upgradeable: {
+        type: 'boolean',
+        description: "Import from @openzeppelin/contracts-upgradeable ('ERC20' resolves to 'ERC20Upgradeable')",
+      },
+      foundry: {
+        type: 'boolean',
+        default: false,
+        description: 'Give forge install and remappings.txt entries instead of npm install',
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export interface GetOzImportArgs {
+  name: string;
+  version?: string;
+  upgradeable?: boolean;
+  foundry?: boolean;
+}
+
+export function handleGetOzImport(db: Database, args: GetOzImportArgs) {
+  const { name, version = '5.x', upgradeable, foundry = false } = args;
+
+  if (!name) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ error: 'Provide the name of the symbol to import' }, null, 2),
+        },
+      ],
+    };
+  }
+
+  let symbol = name;
+  if (upgradeable !== undefined) {
+    const dot = name.lastIndexOf('.');
+    const contractName = dot > 0 ? name.slice(0, dot) : name;
+    const resolved = resolveVariantName(db, contractName, upgradeable ? 'upgradeable' : 'standard', version);
+    symbol = dot > 0 ? `${resolved}${name.slice(dot)}` : resolved;
+  }
+
+  const result = getImport(db, symbol, version);
+
+  if (!result) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `'${name}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: 'Try using list_oz_modules or search_oz_docs to find the symbol',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const tag = listReleases(db).find(r => r.release === version)?.tag;
+  const packageName = result.variant === 'upgradeable' ? '@openzeppelin/contracts-upgradeable' : '@openzeppelin/contracts';
+  const repo = result.variant === 'upgradeable' ? 'openzeppelin-contracts-upgradeable' : 'openzeppelin-contracts';
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            name,
+            version,
+            tag,
+            statement: `import {${result.symbol}} from "${result.importPath}";`,
+            usage: result.member ? `${result.symbol}.${result.member}` : undefined,
+            kind: result.kind,
+            package: packageName,
+            path: result.path,
+            install: foundry
+              ? `forge install OpenZeppelin/${repo}${tag ? `@${tag}` : ''}`
+              : `npm install ${packageName}@${version}`,
+            remappings: foundry ? FOUNDRY_REMAPPINGS[result.variant] : undefined,
+            files: result.files,
+            fileCount: result.files.length + 1,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,95 @@
+import type { Database } from '../db/schema.js';
+import { getSource } from '../db/queries.js';
+import { PRODUCT_INFO, type Product } from '../indexer/releases.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const getOzSourceTool: Tool = {
+  name: 'get_oz_source',
+  description: 'Get the exact Solidity (or Cairo) implementation of an OpenZeppelin contract or of a single member (function, modifier, struct, ...), with line numbers',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "Contract name or 'Contract.member' (e.g., 'ERC20._update', 'Ownable.onlyOwner', 'ERC20Votes.transfer'). Inherited members resolve to the base that declares them",
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      product: {
+        type: 'string',
+        enum: ['contracts', 'contracts-cairo'],
+        default: 'contracts',
+        description: "Library to look in: 'contracts' (Solidity) or 'contracts-cairo' (Cairo, for Starknet). Versions are releases of that library",
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export interface GetOzSourceArgs {
+  name: string;
+  version?: string;
+  product?: string;
+}
+
+export function handleGetOzSource(db: Database, args: GetOzSourceArgs) {
+  const { name, version = '5.x', product = 'contracts' } = args;
+
+  const source = getSource(db, name, version, product);
+
+  if (!source) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Source for '${name}' not found in ${PRODUCT_INFO[product as Product]?.title ?? product} ${version}`,
+              suggestion: "Use a contract name or 'Contract.member'; list_oz_modules shows available contracts",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            name: source.name,
+            declaredIn: source.declaredIn,
+            product,
+            version,
+            path: source.path,
+            excerpts: source.excerpts.map(excerpt => ({
+              name: excerpt.name,
+              type: excerpt.type,
+              signature: excerpt.signature ?? undefined,
+              lines: `${excerpt.startLine}-${excerpt.endLine}`,
+              sourceUrl: source.sourceUrl ? `${source.sourceUrl}#L${excerpt.startLine}-L${excerpt.endLine}` : undefined,
+              code: withLineNumbers(excerpt.code, excerpt.startLine),
+            })),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+function withLineNumbers(code: string, startLine: number): string {
+  const lines = code.split('\n');
+  const width = String(startLine + lines.length - 1).length;
+  return lines
+    .map((line, i) => `${String(startLine + i).padStart(width)} | ${line}`)
+    .join('\n');
+}
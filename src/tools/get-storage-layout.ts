@@ -0,0 +1,118 @@
+import type { Database } from '../db/schema.js';
+import { getContract } from '../db/queries.js';
+import { computeErc7201Slot } from '../indexer/storage-layout.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const getOzStorageLayoutTool: Tool = {
+  name: 'get_oz_storage_layout',
+  description: 'Get the ERC-7201 namespaced storage layout of an OpenZeppelin contract and its bases: namespace ids, computed base slots, the declared slot constants and struct fields with their slots and offsets. Can also compute the slot of any namespace id',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "Contract name (e.g., 'Initializable', 'ERC20Upgradeable', 'AccessControlUpgradeable')",
+      },
+      namespace: {
+        type: 'string',
+        description: "ERC-7201 namespace id to compute the slot for (e.g., 'openzeppelin.storage.ERC20' or 'erc7201:myproject.storage.Vault')",
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+  },
+};
+
+export interface GetOzStorageLayoutArgs {
+  name?: string;
+  namespace?: string;
+  version?: string;
+}
+
+export function handleGetOzStorageLayout(db: Database, args: GetOzStorageLayoutArgs) {
+  const { name, namespace, version = '5.x' } = args;
+
+  if (!name) {
+    if (!namespace) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({ error: 'Provide a contract name or a namespace id' }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const id = namespace.replace(/^erc7201:/, '');
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              namespace: id,
+              slot: computeErc7201Slot(id),
+              formula: 'keccak256(abi.encode(uint256(keccak256(bytes(namespace))) - 1)) & ~bytes32(uint256(0xff))',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const contract = getContract(db, name, version, true);
+
+  if (!contract) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Contract '${name}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: 'Try using list_oz_modules to see available contracts',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const namespaces = contract.structs
+    .filter(s => s.storageLayout)
+    .filter(s => !namespace || s.storageLayout!.namespace === namespace.replace(/^erc7201:/, ''))
+    .map(s => ({
+      struct: s.name,
+      declaredIn: s.declaredIn,
+      ...s.storageLayout!,
+    }));
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            name: contract.name,
+            version,
+            linearization: contract.linearization,
+            namespaces,
+            note: namespaces.length === 0
+              ? 'No ERC-7201 namespaced storage (@custom:storage-location erc7201:...) in this contract or its bases'
+              : undefined,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
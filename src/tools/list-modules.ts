@@ -4,21 +4,32 @@ import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 export const listOzModulesTool: Tool = {
   name: 'list_oz_modules',
-  description: 'List all available OpenZeppelin contracts and libraries, optionally filtered by category',
+  description: 'List all available OpenZeppelin contracts and libraries (or Cairo components, contracts and traits), optionally filtered by category',
   inputSchema: {
     type: 'object',
     properties: {
       category: {
         type: 'string',
-        enum: ['access', 'token', 'utils', 'governance', 'proxy', 'finance', 'metatx', 'all'],
+        enum: ['access', 'token', 'utils', 'governance', 'proxy', 'finance', 'metatx', 'account', 'introspection', 'security', 'upgrades', 'presets', 'all'],
         default: 'all',
         description: 'Filter by category',
       },
       version: {
         type: 'string',
-        enum: ['4.x', '5.x'],
         default: '5.x',
-        description: 'OpenZeppelin Contracts version',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      product: {
+        type: 'string',
+        enum: ['contracts', 'contracts-cairo'],
+        default: 'contracts',
+        description: "Library to look in: 'contracts' (Solidity) or 'contracts-cairo' (Cairo, for Starknet). Versions are releases of that library",
+      },
+      variant: {
+        type: 'string',
+        enum: ['standard', 'upgradeable', 'all'],
+        default: 'all',
+        description: 'Filter by package: openzeppelin-contracts (standard) or openzeppelin-contracts-upgradeable',
       },
     },
   },
@@ -27,18 +38,21 @@ export const listOzModulesTool: Tool = {
 export interface ListOzModulesArgs {
   category?: string;
   version?: string;
+  product?: string;
+  variant?: string;
 }
 
 export function handleListOzModules(db: Database, args: ListOzModulesArgs) {
-  const { category = 'all', version = '5.x' } = args;
+  const { category = 'all', version = '5.x', product = 'contracts', variant = 'all' } = args;
 
-  const modules = listModules(db, category, version);
-  const categories = getCategories(db, version);
+  const modules = listModules(db, category, version, variant, product);
+  const categories = getCategories(db, version, product);
 
   // Group by category
   const grouped: Record<string, Array<{
     name: string;
     type: string;
+    counterpart?: string;
     description: string | null;
   }>> = {};
 
@@ -49,6 +63,7 @@ export function handleListOzModules(db: Database, args: ListOzModulesArgs) {
     grouped[module.category].push({
       name: module.name,
       type: module.type,
+      counterpart: module.counterpart ?? undefined,
       description: module.description,
     });
   }
@@ -59,8 +74,10 @@ export function handleListOzModules(db: Database, args: ListOzModulesArgs) {
         type: 'text' as const,
         text: JSON.stringify(
           {
+            product,
             version,
             filter: category,
+            variant,
             categories: categories.map(c => ({
               name: c.category,
               count: c.count,
@@ -0,0 +1,84 @@
+import type { Database } from '../db/schema.js';
+import { lookupSelector } from '../db/queries.js';
+import { computeSelector, computeTopic } from '../indexer/selectors.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const lookupOzSelectorTool: Tool = {
+  name: 'lookup_oz_selector',
+  description: 'Find OpenZeppelin functions, errors and events by 4-byte selector or 32-byte event topic, or compute the selector of a signature',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      selector: {
+        type: 'string',
+        description: "4-byte selector or event topic0 as hex (e.g., '0xa9059cbb'), or a canonical signature (e.g., 'transfer(address,uint256)')",
+      },
+    },
+    required: ['selector'],
+  },
+};
+
+export interface LookupOzSelectorArgs {
+  selector: string;
+}
+
+export function handleLookupOzSelector(db: Database, args: LookupOzSelectorArgs) {
+  const input = args.selector.trim();
+  const isHex = /^(0x)?([0-9a-f]{8}|[0-9a-f]{64})$/i.test(input);
+
+  let selectors: string[];
+  let signature: string | undefined;
+
+  if (isHex) {
+    selectors = [`0x${input.replace(/^0x/i, '').toLowerCase()}`];
+  } else if (/^\w+\(.*\)$/.test(input)) {
+    signature = input.replace(/\s+/g, '');
+    selectors = [computeSelector(signature), computeTopic(signature)];
+  } else {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `'${input}' is neither a 4-byte selector, a 32-byte topic, nor a signature`,
+              suggestion: "Use hex like '0xa9059cbb' or a signature like 'transfer(address,uint256)'",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const matches = lookupSelector(db, selectors);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            input,
+            signature,
+            selector: signature ? selectors[0] : undefined,
+            topic: signature ? selectors[1] : undefined,
+            matches: matches.map(m => ({
+              contract: m.contractName,
+              version: m.version,
+              name: m.name,
+              memberType: m.type,
+              canonicalSignature: m.canonicalSignature,
+              selector: m.selector,
+              signature: m.signature,
+            })),
+            count: matches.length,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
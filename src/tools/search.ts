@@ -1,29 +1,40 @@
 import type { Database } from '../db/schema.js';
-import { searchDocs, searchMembers } from '../db/queries.js';
+import { searchDocs, searchMembers, findContractsByTag } from '../db/queries.js';
+import { PRODUCTS } from '../indexer/releases.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 export const searchOzDocsTool: Tool = {
   name: 'search_oz_docs',
-  description: 'Search OpenZeppelin Contracts documentation for guides, API references, and code examples',
+  description: 'Search OpenZeppelin documentation for guides, API references, and code examples: Contracts (Solidity), Contracts for Cairo, Contracts for Stylus, Community Contracts and the Upgrades Plugins',
   inputSchema: {
     type: 'object',
     properties: {
       query: {
         type: 'string',
-        description: "Search query (e.g., 'reentrancy guard', 'ERC20 approve', 'access control roles')",
+        description: "Search query (e.g., 'reentrancy guard', 'ERC20 approve', 'access control roles'). May be empty when filtering by tag",
       },
       version: {
         type: 'string',
-        enum: ['4.x', '5.x', 'all'],
+        enum: ['all'], // Indexed versions are added by the server
         default: '5.x',
-        description: 'OpenZeppelin Contracts version',
+        description: "Release of the product: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+      product: {
+        type: 'string',
+        enum: [...PRODUCTS],
+        default: 'contracts',
+        description: "Product to search: 'contracts' (Solidity), 'contracts-cairo' (Cairo, for Starknet), 'contracts-stylus', 'community-contracts' or 'upgrades-plugins' (guides only for the last three)",
       },
       category: {
         type: 'string',
-        enum: ['access', 'token', 'utils', 'governance', 'proxy', 'finance', 'metatx', 'all'],
+        enum: ['access', 'token', 'utils', 'governance', 'proxy', 'finance', 'metatx', 'account', 'introspection', 'security', 'upgrades', 'all'],
         default: 'all',
         description: 'Filter by category',
       },
+      tag: {
+        type: 'string',
+        description: "Only return API members and contracts carrying this @custom NatSpec tag (e.g., 'oz-upgrades-unsafe-allow', 'storage-location')",
+      },
       limit: {
         type: 'number',
         default: 5,
@@ -37,38 +48,46 @@ export const searchOzDocsTool: Tool = {
 export interface SearchOzDocsArgs {
   query: string;
   version?: string;
+  product?: string;
   category?: string;
+  tag?: string;
   limit?: number;
 }
 
 export function handleSearchOzDocs(db: Database, args: SearchOzDocsArgs) {
-  const { query, version = '5.x', category = 'all', limit = 5 } = args;
+  const { query = '', version = '5.x', product = 'contracts', category = 'all', tag, limit = 5 } = args;
 
-  // Search documentation
-  const docResults = searchDocs(db, query, version, category, limit);
+  // Search documentation (guides carry no NatSpec tags)
+  const docResults = tag || !query.trim() ? [] : searchDocs(db, query, version, category, limit, product);
 
   // Also search members (functions, events, etc.)
-  const memberResults = searchMembers(db, query, version, Math.min(limit, 5));
+  const memberResults = searchMembers(db, query, version, tag ? limit : Math.min(limit, 5), tag, product);
+  const taggedContracts = tag ? findContractsByTag(db, tag, version, limit, product) : [];
 
   // Format results
   const formattedDocs = docResults.map(result => ({
     type: 'documentation',
     title: result.title,
+    breadcrumb: result.breadcrumb ?? undefined,
     module: result.module,
     category: result.category,
     version: result.version,
     snippet: result.snippet,
     sourceUrl: result.sourceUrl,
+    sectionId: result.sectionId ?? undefined,
     relevance: Math.abs(result.rank),
   }));
 
   const formattedMembers = memberResults.map(member => ({
     type: 'api',
     name: member.name,
+    contract: member.contractName,
     memberType: member.type,
     signature: member.signature,
     description: member.natspecNotice || member.natspecDev || null,
     visibility: member.visibility,
+    value: member.value ?? undefined,
+    customTags: Object.keys(member.customTags).length > 0 ? member.customTags : undefined,
   }));
 
   return {
@@ -78,11 +97,14 @@ export function handleSearchOzDocs(db: Database, args: SearchOzDocsArgs) {
         text: JSON.stringify(
           {
             query,
+            product,
             version,
             category,
+            tag,
             documentation: formattedDocs,
             api: formattedMembers,
-            totalResults: formattedDocs.length + formattedMembers.length,
+            contracts: tag ? taggedContracts : undefined,
+            totalResults: formattedDocs.length + formattedMembers.length + taggedContracts.length,
           },
           null,
           2
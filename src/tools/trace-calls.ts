@@ -0,0 +1,87 @@
+import type { Database } from '../db/schema.js';
+import { traceCalls } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+const MAX_DEPTH = 8;
+
+export const traceOzCallsTool: Tool = {
+  name: 'trace_oz_calls',
+  description: 'Trace the internal call graph of an OpenZeppelin function: what it calls (modifiers, internal, super and library calls, resolved through the contract linearization) or which functions of the contract reach it',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: "'Contract.function', optionally with parameter types (e.g., 'ERC20.transfer', 'ERC20Votes._update', 'ERC721._safeMint(address,uint256)')",
+      },
+      direction: {
+        type: 'string',
+        enum: ['callees', 'callers'],
+        default: 'callees',
+        description: "'callees' for what the function calls, 'callers' for what calls it in any contract of the release",
+      },
+      depth: {
+        type: 'number',
+        default: 3,
+        description: `Levels to expand (max ${MAX_DEPTH})`,
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export interface TraceOzCallsArgs {
+  name: string;
+  direction?: 'callees' | 'callers';
+  depth?: number;
+  version?: string;
+}
+
+export function handleTraceOzCalls(db: Database, args: TraceOzCallsArgs) {
+  const { name, direction = 'callees', depth = 3, version = '5.x' } = args;
+
+  if (!name) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ error: "Provide a function name as 'Contract.function'" }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const trace = traceCalls(db, name, version, direction, Math.min(Math.max(depth, 1), MAX_DEPTH));
+
+  if (!trace) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Function '${name}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: "Use 'Contract.function'; get_oz_contract lists the functions of a contract",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(trace, null, 2),
+      },
+    ],
+  };
+}
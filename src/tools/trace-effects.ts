@@ -0,0 +1,108 @@
+import type { Database } from '../db/schema.js';
+import { traceEffects, findRaisers } from '../db/queries.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+const MAX_DEPTH = 10;
+
+export const traceOzEffectsTool: Tool = {
+  name: 'trace_oz_effects',
+  description: 'Map OpenZeppelin functions to the events they emit and the errors they revert with, including through internal calls. Give a function to see what it can emit/revert with, or an event/error name to see which functions raise it',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      function: {
+        type: 'string',
+        description: "'Contract.function', optionally with parameter types (e.g., 'ERC20.transfer', 'ERC721.safeTransferFrom(address,address,uint256)')",
+      },
+      raised: {
+        type: 'string',
+        description: "Event or error name, or part of a 4.x revert reason (e.g., 'ERC20InsufficientBalance', 'Transfer', 'ERC20: insufficient allowance')",
+      },
+      contract: {
+        type: 'string',
+        description: "With 'raised': contract whose public/external functions are checked (e.g., 'ERC20Votes'). Defaults to every contract inheriting from one that holds a site or calls into one",
+      },
+      depth: {
+        type: 'number',
+        default: 5,
+        description: `Levels of internal calls to follow (max ${MAX_DEPTH})`,
+      },
+      version: {
+        type: 'string',
+        default: '5.x',
+        description: "OpenZeppelin Contracts version: a release line ('5.x' is the newest indexed 5.x release) or an exact release ('5.1.0')",
+      },
+    },
+  },
+};
+
+export interface TraceOzEffectsArgs {
+  function?: string;
+  raised?: string;
+  contract?: string;
+  depth?: number;
+  version?: string;
+}
+
+export function handleTraceOzEffects(db: Database, args: TraceOzEffectsArgs) {
+  const { function: target, raised, contract, depth = 5, version = '5.x' } = args;
+  const levels = Math.min(Math.max(depth, 0), MAX_DEPTH);
+
+  if (raised) {
+    const result = findRaisers(db, raised, version, contract, levels);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            result.sites.length === 0 && result.entryPoints.length === 0
+              ? { ...result, note: `Nothing in OpenZeppelin Contracts ${version} emits or reverts with '${raised}'` }
+              : result,
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  if (!target) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ error: "Provide 'function' or 'raised'" }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const trace = traceEffects(db, target, version, levels);
+
+  if (!trace) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: `Function '${target}' not found in OpenZeppelin Contracts ${version}`,
+              suggestion: "Use 'Contract.function'; get_oz_contract lists the functions of a contract",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(trace, null, 2),
+      },
+    ],
+  };
+}
@@ -1,6 +1,8 @@
 // Documentation chunk from MDX parsing
 export interface DocChunk {
+  product?: string; // Defaults to 'contracts'
   title: string;
+  breadcrumb?: string[]; // Headings down to the chunk, page title first: ['ERC20', 'Extensions', 'Permit']
   content: string;
   category: string;
   module: string;
@@ -10,60 +12,230 @@ export interface DocChunk {
   filePath?: string;
 }
 
+// OpenZeppelin Contracts version a user's project depends on
+export interface ProjectVersion {
+  version: string; // Exact release ('4.9.3') or release line ('4.x', '4.9')
+  reason: string; // Where it was found, e.g. 'package-lock.json installs @openzeppelin/contracts 4.9.3'
+}
+
+// Entry of the contracts repository's CHANGELOG.md
+export interface ChangelogEntry {
+  release: string; // Release heading the entry is listed under, e.g. '5.0.0'
+  date?: string; // '2023-10-05'
+  section: string[]; // Headings below the release, e.g. ['Breaking Changes', 'Custom error changes']
+  content: string; // Markdown, without the list marker
+  breaking: boolean;
+  references: string[]; // Backticked identifiers, e.g. 'Governor', 'ERC20._update', 'quorum'
+  pullRequests: number[];
+  sourceUrl?: string;
+}
+
 // Contract information from Solidity parsing
-export interface ContractInfo {
+export interface ContractInfo extends SourceRange {
   name: string;
-  type: 'contract' | 'library' | 'interface' | 'abstract';
+  type: 'contract' | 'library' | 'interface' | 'abstract' | 'component' | 'file'; // 'file' holds file-level declarations, 'component' is a Cairo component
+  product?: string; // Defaults to 'contracts'
   category: string;
   version: string;
   inheritance: string[];
+  variant?: ContractVariant; // Defaults to 'standard'
+  sourcePath?: string; // Repository-relative, e.g. 'contracts/token/ERC20/ERC20.sol'
+  importPath?: string; // Package import path, e.g. '@openzeppelin/contracts/token/ERC20/ERC20.sol' ('openzeppelin_token::erc20::erc20::ERC20Component' in Cairo)
+  counterpart?: string; // Same contract in the other variant, e.g. ERC20 <-> ERC20Upgradeable
+  natspecTitle?: string;
   natspecNotice?: string;
+  customTags?: CustomTags;
   sourceUrl?: string;
   functions: FunctionInfo[];
   events: EventInfo[];
   errors: ErrorInfo[];
   modifiers: ModifierInfo[];
+  stateVariables: StateVariableInfo[];
+  structs: StructInfo[];
+  enums: EnumInfo[];
+  userTypes: UserDefinedTypeInfo[];
+  usingFor: UsingForInfo[];
 }
 
-export interface FunctionInfo {
+export interface FunctionInfo extends SourceRange {
   name: string;
   signature: string;
   visibility: 'public' | 'external' | 'internal' | 'private';
   mutability: 'view' | 'pure' | 'payable' | '';
   params: ParamInfo[];
   returns: ReturnInfo[];
+  modifiers?: ModifierInvocationInfo[];
+  calls?: CallInfo[];
+  emits?: RaiseSite[];
+  reverts?: RaiseSite[];
+  isVirtual?: boolean;
+  override?: string[]; // Bases named in `override(...)`; empty for a bare `override`
   natspecNotice?: string;
   natspecDev?: string;
+  customTags?: CustomTags;
+  inheritdoc?: string;
+  natspecSource?: string; // 'IERC20.transfer' when NatSpec was copied from a base
+  canonicalSignature?: string; // 'transfer(address,uint256)'
+  selector?: string; // 4-byte selector for public/external functions
+  abi?: AbiFragment;
   exampleCode?: string;
 }
 
-export interface EventInfo {
+export interface EventInfo extends SourceRange {
   name: string;
   signature: string;
   params: ParamInfo[];
+  isAnonymous?: boolean;
   natspecNotice?: string;
   natspecDev?: string;
+  customTags?: CustomTags;
+  canonicalSignature?: string;
+  selector?: string; // topic0
+  abi?: AbiFragment;
 }
 
-export interface ErrorInfo {
+export interface ErrorInfo extends SourceRange {
   name: string;
   signature: string;
   params: ParamInfo[];
   natspecNotice?: string;
   natspecDev?: string;
+  customTags?: CustomTags;
+  canonicalSignature?: string;
+  selector?: string;
+  abi?: AbiFragment;
 }
 
-export interface ModifierInfo {
+export interface ModifierInfo extends SourceRange {
   name: string;
   signature: string;
   params: ParamInfo[];
+  calls?: CallInfo[];
+  emits?: RaiseSite[];
+  reverts?: RaiseSite[];
+  natspecNotice?: string;
+  natspecDev?: string;
+  customTags?: CustomTags;
+}
+
+export interface StateVariableInfo extends SourceRange {
+  name: string;
+  signature: string;
+  type: string;
+  visibility: 'public' | 'internal' | 'private';
+  mutability: 'constant' | 'immutable' | '';
+  value?: string; // Initializer expression as written in source
+  natspecNotice?: string;
+  natspecDev?: string;
+  customTags?: CustomTags;
+}
+
+export interface StructInfo extends SourceRange {
+  name: string;
+  signature: string;
+  fields: ParamInfo[];
+  natspecNotice?: string;
+  natspecDev?: string;
+  customTags?: CustomTags;
+  storageLayout?: StorageLayoutInfo; // Set for ERC-7201 namespaced storage structs
+}
+
+// Layout of a `@custom:storage-location erc7201:<namespace>` struct
+export interface StorageLayoutInfo {
+  namespace: string;
+  slot: string; // 0x-prefixed 32-byte ERC-7201 base slot
+  slotConstant?: {
+    name: string;
+    value: string;
+    matches: boolean;
+  };
+  fields: StorageFieldInfo[];
+}
+
+export interface StorageFieldInfo {
+  name: string;
+  type: string;
+  slot: string; // Absolute slot, base slot plus the field's slot index
+  offset: number; // Byte offset within the slot
+  bytes: number;
+}
+
+export interface EnumInfo extends SourceRange {
+  name: string;
+  signature: string;
+  values: string[];
   natspecNotice?: string;
   natspecDev?: string;
+  customTags?: CustomTags;
 }
 
+// User-defined value type, e.g. `type ShortString is bytes32`
+export interface UserDefinedTypeInfo extends SourceRange {
+  name: string;
+  signature: string;
+  underlyingType: string;
+  natspecNotice?: string;
+  natspecDev?: string;
+  customTags?: CustomTags;
+}
+
+export interface UsingForInfo extends SourceRange {
+  library: string; // Library name, or '{f, g}' for function lists
+  target: string; // Type name, or '*'
+  signature: string;
+  isGlobal: boolean;
+}
+
+// 1-based lines of a declaration in its source file, body included
+export interface SourceRange {
+  startLine?: number;
+  endLine?: number;
+}
+
+// 'upgradeable' contracts come from openzeppelin-contracts-upgradeable
+export type ContractVariant = 'standard' | 'upgradeable';
+
+// `@custom:<key> <value>` NatSpec tags keyed without the 'custom:' prefix,
+// e.g. { 'oz-upgrades-unsafe-allow': 'constructor' }
+export type CustomTags = Record<string, string>;
+
+// Modifier applied to a function, e.g. `onlyRole(MINTER_ROLE)`
+export interface ModifierInvocationInfo {
+  name: string;
+  arguments: string[];
+}
+
+// Call made from a function or modifier body, resolved against the
+// linearization when traced
+export interface CallInfo {
+  name: string;
+  kind: CallKind;
+  qualifier?: string; // Library/contract name or receiver expression of 'member' calls
+  argumentCount: number;
+  line?: number;
+}
+
+// 'internal': foo(), 'super': super.foo(), 'this': this.foo(), 'member': X.foo()
+export type CallKind = 'internal' | 'super' | 'this' | 'member';
+
+// `emit` or revert in a function or modifier body
+export interface RaiseSite {
+  name: string; // Event or error name, 'Error' for require/revert reason strings
+  qualifier?: string; // 'IERC20' in `emit IERC20.Transfer(...)`
+  message?: string; // Reason string (or expression) of require(cond, reason) and revert(reason)
+  callerCheck?: string; // Condition comparing msg.sender/_msgSender() the revert depends on
+  line?: number;
+}
+
+// How a traced call reaches its target: 'base' is an explicit Base.f() call,
+// 'library' a library call (qualified or through using-for), 'external' a call
+// on another contract that cannot be resolved statically
+export type CallEdgeKind = CallKind | 'base' | 'library' | 'modifier' | 'external';
+
 export interface ParamInfo {
   name: string;
   type: string;
+  indexed?: boolean; // Event parameters only
   description?: string;
 }
 
@@ -73,6 +245,24 @@ export interface ReturnInfo {
   description?: string;
 }
 
+// Solidity ABI JSON, as emitted by solc
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+export interface AbiFragment {
+  type: 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive';
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+  anonymous?: boolean;
+}
+
 // Database row types
 export interface DocRow {
   id: number;
@@ -86,6 +276,28 @@ export interface DocRow {
   file_path: string | null;
 }
 
+export interface ReleaseRow {
+  id: number;
+  product: string;
+  release: string;
+  tag: string;
+  series: string;
+  label: string | null;
+}
+
+export interface ChangelogRow {
+  id: number;
+  release: string;
+  release_date: string | null;
+  section: string | null;
+  content: string;
+  breaking: number;
+  contracts: string; // JSON
+  members: string; // JSON
+  pull_requests: string; // JSON
+  source_url: string | null;
+}
+
 export interface ContractRow {
   id: number;
   version: string;
@@ -93,7 +305,15 @@ export interface ContractRow {
   type: string;
   category: string;
   inheritance: string; // JSON
+  variant: string;
+  counterpart: string | null;
+  source_path: string | null;
+  import_path: string | null;
+  start_line: number | null;
+  end_line: number | null;
+  natspec_title: string | null;
   natspec_notice: string | null;
+  custom_tags: string | null; // JSON
   source_url: string | null;
 }
 
@@ -109,13 +329,41 @@ export interface MemberRow {
   returns: string; // JSON
   natspec_notice: string | null;
   natspec_dev: string | null;
+  natspec_source: string | null;
+  data_type: string | null;
+  value: string | null;
+  canonical_signature: string | null;
+  selector: string | null;
+  abi: string | null; // JSON
+  modifiers: string | null; // JSON
+  calls: string | null; // JSON
+  emits: string | null; // JSON
+  reverts: string | null; // JSON
+  is_virtual: number | null;
+  override: string | null; // JSON
+  custom_tags: string | null; // JSON
+  storage_layout: string | null; // JSON
+  start_line: number | null;
+  end_line: number | null;
   example_code: string | null;
 }
 
+export interface SourceRow {
+  id: number;
+  version: string;
+  variant: string;
+  path: string;
+  import_path: string;
+  imports: string | null; // JSON
+  content: string;
+}
+
 // Search result types
 export interface SearchResult {
   id: number;
+  sectionId: number | null;
   title: string;
+  breadcrumb: string | null;
   module: string;
   category: string;
   version: string;
@@ -124,18 +372,181 @@ export interface SearchResult {
   rank: number;
 }
 
+export interface DocSectionDetails {
+  id: number;
+  product: string;
+  version: string;
+  title: string;
+  breadcrumb: string | null;
+  content: string; // Whole section, without the chunk boundaries
+  sourceUrl: string | null;
+  chunks: number; // Search chunks the section is cut into
+}
+
 export interface ContractDetails {
   name: string;
   type: string;
   category: string;
+  product: string;
   version: string;
   inheritance: string[];
+  linearization?: string[]; // Set when inherited members are included
+  variant: string;
+  counterpart: string | null;
+  importPath: string | null;
+  natspecTitle: string | null;
   natspecNotice: string | null;
+  customTags: CustomTags;
   sourceUrl: string | null;
   functions: MemberDetails[];
   events: MemberDetails[];
   errors: MemberDetails[];
   modifiers: MemberDetails[];
+  stateVariables: MemberDetails[];
+  structs: MemberDetails[];
+  enums: MemberDetails[];
+  userTypes: MemberDetails[];
+  usingFor: MemberDetails[];
+}
+
+export interface SourceDetails {
+  name: string; // As requested, e.g. 'ERC20Votes._update'
+  declaredIn: string; // Contract whose file holds the excerpts
+  version: string;
+  variant: string;
+  path: string;
+  sourceUrl: string | null;
+  excerpts: SourceExcerpt[];
+}
+
+export interface ImportDetails {
+  symbol: string; // Name to import, the containing contract for nested declarations
+  member: string | null; // Nested declaration asked for, e.g. 'Rounding' of 'Math.Rounding'
+  kind: string; // Contract type, or member type of a file-level declaration
+  variant: string;
+  importPath: string; // '@openzeppelin/contracts/token/ERC20/ERC20.sol'
+  path: string; // 'contracts/token/ERC20/ERC20.sol'
+  files: string[]; // Import paths of every file pulled in transitively
+}
+
+export interface SourceExcerpt {
+  name: string;
+  type: string;
+  signature: string | null; // null for a whole contract
+  startLine: number;
+  endLine: number;
+  code: string;
+}
+
+export interface CallTrace {
+  name: string; // As requested, e.g. 'ERC20.transfer'
+  version: string;
+  direction: 'callees' | 'callers';
+  linearization: string[]; // Context the calls were resolved in
+  roots: CallTraceNode[]; // One per matching overload
+}
+
+export interface CallTraceNode {
+  contract: string; // Declaring contract, or the receiver of an unresolved external call
+  name: string;
+  signature: string | null; // null when the call could not be resolved
+  kind: CallEdgeKind | 'root';
+  line?: number; // Line of the call site in the calling function's file
+  recursive?: boolean; // Already on the current path, not expanded again
+  truncated?: boolean; // Depth limit reached with further edges left
+  calls?: CallTraceNode[]; // Callees or callers, depending on the direction
+}
+
+// Emit or revert reached from a traced function
+export interface EffectSite {
+  kind: 'emit' | 'revert';
+  name: string; // Event or error name, 'Error' for reason strings
+  message?: string;
+  contract: string; // Contract declaring the function that holds the statement
+  function: string; // Its signature
+  line?: number;
+  via: string[]; // Call path from the traced function, e.g. ['ERC20.transfer', 'ERC20._transfer', 'ERC20._update']
+}
+
+export interface EffectTrace {
+  name: string;
+  version: string;
+  linearization: string[];
+  functions: Array<{ contract: string; signature: string; emits: EffectSite[]; reverts: EffectSite[] }>;
+}
+
+export interface RaiserSearch {
+  name: string; // Event, error or reason text searched for
+  version: string;
+  sites: Array<{ contract: string; function: string; kind: 'emit' | 'revert'; name: string; message?: string; line?: number }>;
+  // Public and external functions that reach a site through internal calls,
+  // per contract the search was run in
+  entryPoints: Array<{ context: string; contract: string; function: string; via: string[] }>;
+}
+
+// API differences between two releases, as reported by diff_oz_versions
+export interface VersionDiff {
+  from: string;
+  to: string;
+  name?: string; // Contract the diff was limited to
+  variant: string;
+  summary: { added: number; removed: number; renamed: number; changed: number; unchanged: number };
+  added: Array<{ name: string; type: string }>;
+  removed: Array<{ name: string; type: string }>;
+  renamed: Array<{ from: string; to: string; similarity: number }>;
+  changed: ContractDiff[];
+}
+
+export interface ContractDiff {
+  name: string; // Name in the newer release
+  previousName?: string; // Set for renamed contracts
+  type?: { from: string; to: string };
+  inheritance?: { added: string[]; removed: string[] };
+  added: string[]; // Member signatures
+  removed: string[];
+  renamed: Array<{ type: string; from: string; to: string }>;
+  changed: MemberChange[];
+}
+
+export interface MemberChange {
+  type: string;
+  name: string;
+  from: string; // Signature in the older release
+  to: string;
+  changes: Array<{ field: string; from: string | boolean | null; to: string | boolean | null }>;
+}
+
+// OpenZeppelin API used by Solidity code that is removed or changed in the
+// target release, as reported by check_oz_migration
+export interface MigrationFinding {
+  kind: 'import' | 'contract' | 'function' | 'modifier';
+  name: string; // 'ERC20._beforeTokenTransfer', 'Counters' or an import path
+  status: 'removed' | 'changed' | 'moved';
+  usage: 'import' | 'inherits' | 'using' | 'type' | 'call' | 'override' | 'modifier';
+  contract?: string; // Contract of the checked code the use is in
+  lines: number[];
+  from?: string; // Signature in the older release
+  to?: string[]; // Signatures or import paths in the target release
+  replacement?: string;
+}
+
+export interface MigrationReport {
+  from: string;
+  to: string;
+  contracts: string[]; // Contracts declared by the checked code
+  findings: MigrationFinding[];
+}
+
+export interface ChangelogDetails {
+  release: string;
+  date: string | null;
+  section: string | null; // 'Breaking Changes > Custom error changes'
+  breaking: boolean;
+  content: string;
+  contracts: string[]; // Indexed contracts the entry mentions
+  members: string[]; // 'Contract.member' references
+  pullRequests: number[];
+  sourceUrl: string | null;
 }
 
 export interface MemberDetails {
@@ -148,5 +559,21 @@ export interface MemberDetails {
   returns: ReturnInfo[];
   natspecNotice: string | null;
   natspecDev: string | null;
+  natspecSource: string | null;
+  dataType: string | null;
+  value: string | null;
+  canonicalSignature: string | null;
+  selector: string | null;
+  modifiers: ModifierInvocationInfo[];
+  calls: CallInfo[];
+  emits: RaiseSite[];
+  reverts: RaiseSite[];
+  isVirtual: boolean;
+  override: string[] | null;
+  customTags: CustomTags;
+  storageLayout: StorageLayoutInfo | null;
   exampleCode: string | null;
+  contractName?: string; // Containing contract, set by cross-contract queries
+  declaredIn?: string; // Declaring contract, set for flattened views
+  overrides?: string[]; // Bases whose declaration this member replaces
 }
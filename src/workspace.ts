@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { readSourceRelease } from './indexer/local-sources.js';
+import type { ProjectVersion } from './types.js';
+
+// Packages whose version is the project's OpenZeppelin Contracts version, preferred first
+const PACKAGES = ['@openzeppelin/contracts', '@openzeppelin/contracts-upgradeable'];
+
+const VERSION = /^\d+\.\d+\.\d+(?:-[\w.]+)?$/;
+
+/**
+ * OpenZeppelin Contracts version used by the project in `root`, from the
+ * first source that names one: npm lockfiles, installed node_modules, the
+ * Foundry library checkout (found through foundry.toml or remappings.txt
+ * remappings, else lib/openzeppelin-contracts), then package.json
+ * dependency ranges. Null if none does.
+ */
+export async function detectProjectVersion(root: string): Promise<ProjectVersion | null> {
+  const detectors = [fromPackageLock, fromYarnLock, fromPnpmLock, fromNodeModules, fromFoundryLib, fromPackageJson];
+  for (const detect of detectors) {
+    const found = await detect(root);
+    if (found) return found;
+  }
+  return null;
+}
+
+async function fromPackageLock(root: string): Promise<ProjectVersion | null> {
+  const lock = await readJson(path.join(root, 'package-lock.json')) as {
+    packages?: Record<string, { version?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  } | undefined;
+  if (!lock) return null;
+
+  for (const name of PACKAGES) {
+    // lockfileVersion 2+ lists installed packages by path, version 1 by name
+    const version = lock.packages?.[`node_modules/${name}`]?.version ?? lock.dependencies?.[name]?.version;
+    if (version && VERSION.test(version)) {
+      return { version, reason: `package-lock.json installs ${name} ${version}` };
+    }
+  }
+  return null;
+}
+
+async function fromYarnLock(root: string): Promise<ProjectVersion | null> {
+  const lock = await readText(path.join(root, 'yarn.lock'));
+  if (!lock) return null;
+
+  for (const name of PACKAGES) {
+    // '"@openzeppelin/contracts@^4.9.3":\n  version "4.9.3"' (Berry: 'version: 4.9.3')
+    const pattern = new RegExp(`^"?${escape(name)}@[^\\n]*:\\n\\s+version:? "?([^"\\s]+)"?`, 'm');
+    const version = lock.match(pattern)?.[1];
+    if (version && VERSION.test(version)) {
+      return { version, reason: `yarn.lock installs ${name} ${version}` };
+    }
+  }
+  return null;
+}
+
+async function fromPnpmLock(root: string): Promise<ProjectVersion | null> {
+  const lock = await readText(path.join(root, 'pnpm-lock.yaml'));
+  if (!lock) return null;
+
+  for (const name of PACKAGES) {
+    // Package keys: '/@openzeppelin/contracts/4.9.3:' (v5), '/@openzeppelin/contracts@4.9.3:' (v6),
+    // "'@openzeppelin/contracts@4.9.3':" (v9)
+    const pattern = new RegExp(`^\\s+['"]?/?${escape(name)}[@/](\\d+\\.\\d+\\.\\d+[\\w.-]*)['"]?:`, 'm');
+    const version = lock.match(pattern)?.[1];
+    if (version && VERSION.test(version)) {
+      return { version, reason: `pnpm-lock.yaml installs ${name} ${version}` };
+    }
+  }
+  return null;
+}
+
+async function fromNodeModules(root: string): Promise<ProjectVersion | null> {
+  for (const name of PACKAGES) {
+    const pkg = await readJson(path.join(root, 'node_modules', name, 'package.json')) as { version?: string } | undefined;
+    if (pkg?.version && VERSION.test(pkg.version)) {
+      return { version: pkg.version, reason: `node_modules/${name} is version ${pkg.version}` };
+    }
+  }
+  return null;
+}
+
+async function fromFoundryLib(root: string): Promise<ProjectVersion | null> {
+  const checkouts: Array<{ dir: string; via: string }> = [];
+
+  // '@openzeppelin/contracts/=lib/openzeppelin-contracts/contracts/'
+  for (const file of ['foundry.toml', 'remappings.txt']) {
+    const content = await readText(path.join(root, file));
+    if (!content) continue;
+    for (const name of PACKAGES) {
+      const target = content.match(new RegExp(`${escape(name)}/=([^"'\\s,\\]]+)`))?.[1];
+      if (target) {
+        checkouts.push({ dir: target.replace(/\/?contracts\/?$/, ''), via: `remapped in ${file}` });
+      }
+    }
+  }
+  checkouts.push(
+    { dir: 'lib/openzeppelin-contracts', via: 'Foundry library' },
+    { dir: 'lib/openzeppelin-contracts-upgradeable', via: 'Foundry library' }
+  );
+
+  for (const { dir, via } of checkouts) {
+    const found = await readSourceRelease(path.resolve(root, dir));
+    if (!found) continue;
+    return {
+      version: found.release,
+      reason: found.tag
+        ? `${dir} (${via}) is checked out at tag ${found.tag}`
+        : `${dir} (${via}) has package.json version ${found.release}`,
+    };
+  }
+  return null;
+}
+
+async function fromPackageJson(root: string): Promise<ProjectVersion | null> {
+  const pkg = await readJson(path.join(root, 'package.json')) as Record<string, Record<string, string> | undefined> | undefined;
+  if (!pkg) return null;
+
+  for (const name of PACKAGES) {
+    for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+      const range = pkg[field]?.[name];
+      const version = range && rangeVersion(range);
+      if (version) {
+        return { version, reason: `package.json requires ${name} ${range} in ${field} (not installed)` };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Version a dependency range asks for: the release itself if it pins one
+ * ('4.9.3', '=4.9.3'), the minor line for '~4.9.3', the major line otherwise
+ * ('^4.9.3', '>=4.0.0 <5')
+ */
+function rangeVersion(range: string): string | null {
+  const match = range.trim().match(/^(=|~|\^|>=?)?\s*v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(-[\w.]+)?/);
+  if (!match) return null;
+
+  const [, operator = '', major, minor, patch, prerelease = ''] = match;
+  const numeric = (part?: string) => part !== undefined && /^\d+$/.test(part);
+  if ((operator === '' || operator === '=') && numeric(minor) && numeric(patch)) {
+    return `${major}.${minor}.${patch}${prerelease}`;
+  }
+  if ((operator === '~' || operator === '') && numeric(minor)) {
+    return `${major}.${minor}`;
+  }
+  return `${major}.x`;
+}
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  const text = await readText(filePath);
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}